@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, useNavigate, useLocation } from 'react-router-dom';
 import type { CalculatorInputs, MonthlyResults, KPIs } from './utils/calculations';
 import { defaultInputs, calculateAllResults, calculateKPIs } from './utils/calculations';
+import { buildAmortizationSchedule, type AmortizationSchedule } from './utils/amortization';
+import { applyAccountingBasis, applyAccountingBasisToKPIs } from './utils/accountingBasis';
 import { exportToPDF } from './utils/pdfExport';
 import InputPanel from './components/InputPanel';
 import ResultsPanel from './components/ResultsPanel';
@@ -14,11 +16,16 @@ function AppContent() {
   const [inputs, setInputs] = useState<CalculatorInputs>(defaultInputs);
   const [results, setResults] = useState<MonthlyResults[]>([]);
   const [kpis, setKpis] = useState<KPIs | null>(null);
+  const [schedule, setSchedule] = useState<AmortizationSchedule | null>(null);
   const [selectedDevice, setSelectedDevice] = useState<any>(null);
   
   const location = useLocation();
   const navigate = useNavigate();
   
+  // Results shown and exported on whichever accounting basis is selected
+  const basisResults = applyAccountingBasis(results, inputs.accounting.basis);
+  const basisKpis = kpis ? applyAccountingBasisToKPIs(kpis, basisResults, inputs.accounting.basis) : null;
+  
   // Determine active tab based on current route
   const activeTab = location.pathname === '/reports' ? 'reports' : 'calculator';
 
@@ -28,6 +35,7 @@ function AppContent() {
     
     setResults(monthlyResults);
     setKpis(calculatedKPIs);
+    setSchedule(buildAmortizationSchedule(inputs));
   }, [inputs]);
 
   const handleInputChange = (section: keyof CalculatorInputs, field: string, value: any) => {
@@ -41,8 +49,8 @@ function AppContent() {
   };
 
   const handleExportPDF = () => {
-    if (kpis) {
-      exportToPDF(inputs, results, kpis, 'Your Practice', selectedDevice);
+    if (basisKpis) {
+      exportToPDF(inputs, basisResults, basisKpis, 'Your Practice', selectedDevice);
     }
   };
 
@@ -80,7 +88,7 @@ function AppContent() {
             
             {/* Right Panel - Results */}
             <div className="w-2/3 bg-dark-950 overflow-y-auto">
-              <ResultsPanel results={results} kpis={kpis} />
+              <ResultsPanel inputs={inputs} results={basisResults} kpis={basisKpis} schedule={schedule} />
             </div>
           </div>
         } />
@@ -89,8 +97,8 @@ function AppContent() {
           <div className="pt-16">
             <ReportTab 
               inputs={inputs}
-              results={results}
-              kpis={kpis}
+              results={basisResults}
+              kpis={basisKpis}
               selectedDevice={selectedDevice}
             />
           </div>
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  type TooltipItem
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import type { CalculatorInputs } from '../utils/calculations';
+import { getFinancingRate } from '../utils/financing';
+import {
+  COMPARISON_OBJECTIVES,
+  compareAcquisitionMethods,
+  pickBestOption,
+  type AcquisitionOption,
+  type ComparisonObjective
+} from '../utils/acquisitionComparison';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const OPTION_COLORS = ['rgb(148, 163, 184)', 'rgb(59, 130, 246)', 'rgb(34, 197, 94)', 'rgb(245, 158, 11)', 'rgb(168, 85, 247)'];
+
+interface AcquisitionComparisonProps {
+  inputs: CalculatorInputs;
+}
+
+const AcquisitionComparison: React.FC<AcquisitionComparisonProps> = ({ inputs }) => {
+  const [objective, setObjective] = useState<ComparisonObjective>('npv');
+  const options = useMemo(() => compareAcquisitionMethods(inputs), [inputs]);
+  const best = pickBestOption(options, objective);
+
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  const horizon = options.length > 0 ? options[0].results.length : 0;
+  const chartData = {
+    labels: options.length > 0 ? options[0].results.map(r => `M${r.month}`) : [],
+    datasets: options.map((option, index) => ({
+      label: option.label,
+      data: option.results.map(r => r.cumulativeCash),
+      borderColor: OPTION_COLORS[index % OPTION_COLORS.length],
+      backgroundColor: OPTION_COLORS[index % OPTION_COLORS.length],
+      borderWidth: option === best ? 3 : 1.5,
+      pointRadius: 0,
+      tension: 0.1
+    }))
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        labels: {
+          color: '#f1f5f9'
+        }
+      },
+      tooltip: {
+        backgroundColor: 'rgba(15, 23, 42, 0.9)',
+        titleColor: '#f1f5f9',
+        bodyColor: '#f1f5f9',
+        borderColor: '#334155',
+        borderWidth: 1,
+        callbacks: {
+          label: (context: TooltipItem<'line'>) => `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`
+        }
+      }
+    },
+    scales: {
+      x: {
+        ticks: { color: '#94a3b8', maxTicksLimit: 12 },
+        grid: { color: 'rgba(148, 163, 184, 0.1)' }
+      },
+      y: {
+        ticks: {
+          color: '#94a3b8',
+          callback: (value: string | number) => formatCurrency(Number(value))
+        },
+        grid: { color: 'rgba(148, 163, 184, 0.1)' }
+      }
+    }
+  };
+
+  const formatResidual = (option: AcquisitionOption) => {
+    const { balloonResidual, balloonType } = option.financing;
+    if (balloonResidual <= 0) return '—';
+    return balloonType === 'percent' ? `${balloonResidual}%` : formatCurrency(balloonResidual);
+  };
+
+  const rows: Array<{ label: string; value: (option: AcquisitionOption) => string }> = [
+    { label: 'Rate', value: option => option.method === 'cash' ? '—' : `${(getFinancingRate(option.financing) * 100).toFixed(2)}%` },
+    { label: 'Residual / Balloon', value: option => option.method === 'cash' ? '—' : formatResidual(option) },
+    { label: 'After-Tax Total Cost', value: option => formatCurrency(option.afterTaxCost) },
+    { label: 'NPV', value: option => formatCurrency(option.npv) },
+    { label: 'Payback', value: option => `${option.paybackMonths} months` },
+    { label: 'Peak Cash Need', value: option => formatCurrency(option.peakCashNeed) },
+    { label: 'Monthly Payment', value: option => option.monthlyPayment > 0 ? formatCurrency(option.monthlyPayment) : '—' }
+  ];
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-dark-100">Cash vs Loan vs Lease</h3>
+          <p className="text-sm text-dark-400">Same operating assumptions over {horizon} months</p>
+          <p className="text-xs text-dark-400">
+            The method selected in Financing uses your terms; the others use typical terms for that kind of deal.
+          </p>
+        </div>
+        <select
+          value={objective}
+          onChange={(e) => setObjective(e.target.value as ComparisonObjective)}
+          className="input-field w-auto"
+        >
+          {(Object.keys(COMPARISON_OBJECTIVES) as ComparisonObjective[]).map(key => (
+            <option key={key} value={key}>{COMPARISON_OBJECTIVES[key].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {best && (
+        <div className="mb-4 p-3 rounded bg-green-900/20 border border-green-800 text-sm text-green-300">
+          Best option for {COMPARISON_OBJECTIVES[objective].label.toLowerCase()}: <span className="font-semibold">{best.label}</span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-dark-600">
+              <th className="text-left py-2 px-3 text-dark-300">Metric</th>
+              {options.map(option => (
+                <th
+                  key={option.method}
+                  className={`text-right py-2 px-3 ${option === best ? 'text-green-400' : 'text-dark-300'}`}
+                >
+                  {option.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className="border-b border-dark-700">
+                <td className="py-2 px-3 text-dark-200">{row.label}</td>
+                {options.map(option => (
+                  <td
+                    key={option.method}
+                    className={`py-2 px-3 text-right ${option === best ? 'text-green-400 font-semibold' : 'text-dark-200'}`}
+                  >
+                    {row.value(option)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h4 className="text-sm font-medium text-dark-300 mb-2">Cumulative Cash Position</h4>
+      <div className="h-64">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+    </div>
+  );
+};
+
+export default AcquisitionComparison;
@@ -0,0 +1,86 @@
+import React from 'react';
+import type { AmortizationSchedule } from '../utils/amortization';
+
+interface AmortizationTableProps {
+  schedule: AmortizationSchedule;
+}
+
+const AmortizationTable: React.FC<AmortizationTableProps> = ({ schedule }) => {
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+  const summary = [
+    { label: 'Amount Financed', value: formatCurrency(schedule.amountFinanced) },
+    { label: 'Total Payments', value: formatCurrency(schedule.totalPayments) },
+    { label: 'Total Interest', value: formatCurrency(schedule.totalInterest) },
+    { label: 'Payoff Date', value: schedule.payoffDate ? `${formatDate(schedule.payoffDate)} (M${schedule.payoffMonth})` : '—' }
+  ];
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-dark-100 mb-4">Payment Schedule</h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+        {summary.map(item => (
+          <div key={item.label}>
+            <div className="text-dark-400">{item.label}</div>
+            <div className="text-dark-100 font-semibold">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {Math.abs(schedule.unreconciledPrincipal) >= 1 && (
+        <p className="text-xs text-yellow-400 mb-4">
+          Principal and balloon repaid come to {formatCurrency(schedule.totalPrincipal)}, not the {formatCurrency(schedule.amountFinanced)} financed.
+        </p>
+      )}
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto scrollbar-thin">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-dark-800">
+            <tr className="border-b border-dark-600">
+              <th className="text-left py-2 px-3 text-dark-300">#</th>
+              <th className="text-left py-2 px-3 text-dark-300">Date</th>
+              <th className="text-right py-2 px-3 text-dark-300">Payment</th>
+              <th className="text-right py-2 px-3 text-dark-300">Interest</th>
+              <th className="text-right py-2 px-3 text-dark-300">Principal</th>
+              <th className="text-right py-2 px-3 text-dark-300">Fees</th>
+              <th className="text-right py-2 px-3 text-dark-300">Balloon</th>
+              <th className="text-right py-2 px-3 text-dark-300">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.rows.map(row => (
+              <tr key={row.month} className="border-b border-dark-700 hover:bg-dark-700">
+                <td className="py-2 px-3 text-dark-200">{row.month}</td>
+                <td className="py-2 px-3 text-dark-200">{formatDate(row.date)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(row.payment)}</td>
+                <td className="py-2 px-3 text-right text-red-400">{formatCurrency(row.interest)}</td>
+                <td className="py-2 px-3 text-right text-green-400">{formatCurrency(row.principal + row.prepayment)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(row.fees + row.penalty)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{row.residual > 0 ? formatCurrency(row.residual) : '—'}</td>
+                <td className="py-2 px-3 text-right text-blue-400">{formatCurrency(row.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="sticky bottom-0 bg-dark-800">
+            <tr className="border-t border-dark-600 font-semibold">
+              <td className="py-2 px-3 text-dark-100" colSpan={2}>Total</td>
+              <td className="py-2 px-3 text-right text-dark-100">{formatCurrency(schedule.rows.reduce((sum, row) => sum + row.payment, 0))}</td>
+              <td className="py-2 px-3 text-right text-red-400">{formatCurrency(schedule.totalInterest)}</td>
+              <td className="py-2 px-3 text-right text-green-400">{formatCurrency(schedule.totalPrincipal - schedule.balloon)}</td>
+              <td className="py-2 px-3 text-right text-dark-100">{formatCurrency(schedule.totalFees)}</td>
+              <td className="py-2 px-3 text-right text-dark-100">{schedule.balloon > 0 ? formatCurrency(schedule.balloon) : '—'}</td>
+              <td className="py-2 px-3 text-right text-dark-100"></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AmortizationTable;
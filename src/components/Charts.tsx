@@ -9,10 +9,12 @@ import {
   Title,
   Tooltip,
   Legend,
-  Filler
+  Filler,
+  type TooltipItem
 } from 'chart.js';
 import { Line, Bar } from 'react-chartjs-2';
 import type { MonthlyResults } from '../utils/calculations';
+import type { AccountingBasis } from '../utils/accountingBasis';
 
 ChartJS.register(
   CategoryScale,
@@ -28,9 +30,10 @@ ChartJS.register(
 
 interface ChartsProps {
   results: MonthlyResults[];
+  basis: AccountingBasis;
 }
 
-const Charts: React.FC<ChartsProps> = ({ results }) => {
+const Charts: React.FC<ChartsProps> = ({ results, basis }) => {
   // const months = results.map(r => `Month ${r.month}`);
   const first24Months = results.slice(0, 24);
 
@@ -77,21 +80,21 @@ const Charts: React.FC<ChartsProps> = ({ results }) => {
     labels: first24Months.map(r => `M${r.month}`),
     datasets: [
       {
-        label: 'Revenue',
+        label: basis === 'cash' ? 'Cash Receipts' : 'Revenue',
         data: first24Months.map(r => r.revenue),
         backgroundColor: 'rgba(34, 197, 94, 0.8)',
         borderColor: 'rgb(34, 197, 94)',
         borderWidth: 1
       },
       {
-        label: 'Variable Costs',
+        label: basis === 'cash' ? 'Variable Costs Paid' : 'Variable Costs',
         data: first24Months.map(r => r.variableCosts),
         backgroundColor: 'rgba(239, 68, 68, 0.8)',
         borderColor: 'rgb(239, 68, 68)',
         borderWidth: 1
       },
       {
-        label: 'Fixed Costs',
+        label: basis === 'cash' ? 'Fixed Costs Paid' : 'Fixed Costs',
         data: first24Months.map(r => r.fixedOpex),
         backgroundColor: 'rgba(245, 158, 11, 0.8)',
         borderColor: 'rgb(245, 158, 11)',
@@ -145,6 +148,61 @@ const Charts: React.FC<ChartsProps> = ({ results }) => {
     }
   };
 
+  // Membership Chart - members on the right axis, monthly dues on the left
+  const hasMembers = first24Months.some(r => r.members > 0);
+  const membershipData = {
+    labels: first24Months.map(r => `M${r.month}`),
+    datasets: [
+      {
+        label: 'Membership Revenue',
+        data: first24Months.map(r => r.membershipRevenue),
+        borderColor: 'rgb(168, 85, 247)',
+        backgroundColor: 'rgba(168, 85, 247, 0.1)',
+        fill: true,
+        tension: 0.4,
+        yAxisID: 'y'
+      },
+      {
+        label: 'Active Members',
+        data: first24Months.map(r => r.members),
+        borderColor: 'rgb(236, 72, 153)',
+        backgroundColor: 'rgba(236, 72, 153, 0.1)',
+        tension: 0.4,
+        yAxisID: 'members'
+      }
+    ]
+  };
+
+  const membershipChartOptions = {
+    ...chartOptions,
+    plugins: {
+      ...chartOptions.plugins,
+      tooltip: {
+        ...chartOptions.plugins.tooltip,
+        callbacks: {
+          label: function(context: TooltipItem<'line'>) {
+            const value = context.parsed.y.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+            return context.dataset.yAxisID === 'members'
+              ? `${context.dataset.label}: ${value}`
+              : `${context.dataset.label}: $${value}`;
+          }
+        }
+      }
+    },
+    scales: {
+      ...chartOptions.scales,
+      members: {
+        position: 'right' as const,
+        ticks: {
+          color: '#94a3b8'
+        },
+        grid: {
+          drawOnChartArea: false
+        }
+      }
+    }
+  };
+
   const lineChartOptions = {
     ...chartOptions,
     scales: {
@@ -181,11 +239,23 @@ const Charts: React.FC<ChartsProps> = ({ results }) => {
 
       {/* Revenue vs Costs Chart */}
       <div className="chart-container">
-        <h3 className="text-lg font-semibold text-dark-100 mb-4">Revenue vs Costs (24 Months)</h3>
+        <h3 className="text-lg font-semibold text-dark-100 mb-4">
+          {basis === 'cash' ? 'Receipts vs Payments' : 'Revenue vs Costs'} (24 Months)
+        </h3>
         <div className="h-64">
           <Bar data={revenueVsCostsData} options={chartOptions} />
         </div>
       </div>
+
+      {/* Membership Chart */}
+      {hasMembers && (
+        <div className="chart-container">
+          <h3 className="text-lg font-semibold text-dark-100 mb-4">Membership (24 Months)</h3>
+          <div className="h-64">
+            <Line data={membershipData} options={membershipChartOptions} />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { ChevronDown, RefreshCw, ExternalLink } from 'lucide-react';
-import { fetchDevicesFromMRP, refreshDeviceData } from '../utils/deviceApi';
+import { fetchDevicesFromMRP, refreshDeviceData, type DeviceReplacementPart, type DeviceTreatment } from '../utils/deviceApi';
 
 export interface Device {
   id: string;
@@ -12,6 +12,8 @@ export interface Device {
   typical_treatment_time: number;
   consumables_per_treatment: number;
   description: string;
+  treatment_menu?: DeviceTreatment[];
+  replacement_parts?: DeviceReplacementPart[];
   image_url?: string;
   mrp_url?: string;
 }
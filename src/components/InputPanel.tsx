@@ -1,7 +1,22 @@
 import React, { useState } from 'react';
-import type { CalculatorInputs } from '../utils/calculations';
-import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { CalculatorInputs, Provider, ReplacementPart, TreatmentMenuItem } from '../utils/calculations';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
 import DeviceSelector, { type Device } from './DeviceSelector';
+import LenderSelector from './LenderSelector';
+import { getBonusRate } from '../utils/section179';
+import { getCombinedTaxRate } from '../utils/taxes';
+import { ACCOUNTING_BASES } from '../utils/accountingBasis';
+import { calculateBlendedNetPrice, getSingleSessionPrice } from '../utils/packages';
+import { getTreatmentMix } from '../utils/treatmentMenu';
+import { getFunnelMonth, VOLUME_DRIVERS } from '../utils/marketing';
+import { CAPACITY_CONSTRAINT_LABELS, getCapacityLimits, getLimitingFactor } from '../utils/capacity';
+import { PROVIDER_ROLES } from '../utils/staffing';
+import { getReserveRate, RESERVE_LINES } from '../utils/reserves';
+import { getCoverageEndMonth, getUncoveredPaymentMonths, SERVICE_COVERAGE_OPTIONS } from '../utils/service';
+import { buildAmortizationSchedule } from '../utils/amortization';
+import { isValidSkipList } from '../utils/financing';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
 interface InputPanelProps {
   inputs: CalculatorInputs;
@@ -33,6 +48,22 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
       onInputChange('device', 'warrantyYears', device.warranty_years);
       onInputChange('utilization', 'avgTreatmentTime', device.typical_treatment_time);
       onInputChange('variableCosts', 'consumables', device.consumables_per_treatment);
+      onInputChange('pricing', 'treatmentMenu', (device.treatment_menu ?? []).map(treatment => ({
+        name: treatment.name,
+        price: treatment.price,
+        treatmentTime: treatment.treatment_time,
+        consumables: treatment.consumables_per_treatment,
+        mixPercent: treatment.mix_percent,
+        ramp: treatment.ramp ?? []
+      })));
+      onInputChange('lifecycle', 'parts', (device.replacement_parts ?? []).map(part => ({
+        name: part.name,
+        cost: part.cost,
+        lifeTreatments: part.life_treatments,
+        lifeMonths: part.life_months,
+        leadTimeMonths: part.lead_time_months,
+        treatments: part.treatments ?? []
+      })));
     }
     if (onDeviceSelect) {
       onDeviceSelect(device);
@@ -82,6 +113,58 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
     );
   };
 
+  const hasMenu = inputs.pricing.treatmentMenu.length > 0;
+  const menuMix = getTreatmentMix(inputs);
+  const funnel = getFunnelMonth(inputs, 1);
+  const capacityLimits = getCapacityLimits(inputs.utilization, menuMix.treatmentTime);
+  const limitingFactor = getLimitingFactor(capacityLimits);
+  const coverageEndMonth = getCoverageEndMonth(inputs.device, inputs.service);
+  const uncoveredMonths = getUncoveredPaymentMonths(inputs, buildAmortizationSchedule(inputs).rows);
+
+  const updateMenuItem = (index: number, changes: Partial<TreatmentMenuItem>) => {
+    onInputChange('pricing', 'treatmentMenu', inputs.pricing.treatmentMenu.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  // Renaming a menu line keeps the providers who perform it
+  const renameMenuItem = (index: number, name: string) => {
+    const previousName = inputs.pricing.treatmentMenu[index].name;
+    updateMenuItem(index, { name });
+    onInputChange('staffing', 'providers', inputs.staffing.providers.map(provider => ({
+      ...provider,
+      treatments: provider.treatments.map(treatment => (treatment === previousName ? name : treatment))
+    })));
+    onInputChange('lifecycle', 'parts', inputs.lifecycle.parts.map(part => ({
+      ...part,
+      treatments: part.treatments.map(treatment => (treatment === previousName ? name : treatment))
+    })));
+  };
+
+  const updateProvider = (index: number, changes: Partial<Provider>) => {
+    onInputChange('staffing', 'providers', inputs.staffing.providers.map((provider, i) => (i === index ? { ...provider, ...changes } : provider)));
+  };
+
+  const toggleProviderTreatment = (index: number, treatment: string) => {
+    const current = inputs.staffing.providers[index].treatments;
+    updateProvider(index, {
+      treatments: current.includes(treatment) ? current.filter(name => name !== treatment) : [...current, treatment]
+    });
+  };
+
+  const updatePart = (index: number, changes: Partial<ReplacementPart>) => {
+    onInputChange('lifecycle', 'parts', inputs.lifecycle.parts.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+  };
+
+  const togglePartTreatment = (index: number, treatment: string) => {
+    const current = inputs.lifecycle.parts[index].treatments;
+    updatePart(index, {
+      treatments: current.includes(treatment) ? current.filter(name => name !== treatment) : [...current, treatment]
+    });
+  };
+
+  const updatePackage = (index: number, field: 'sessions' | 'price' | 'attachRate', value: number) => {
+    onInputChange('pricing', 'packages', inputs.pricing.packages.map((pkg, i) => (i === index ? { ...pkg, [field]: value } : pkg)));
+  };
+
   const SectionHeader: React.FC<{ title: string; section: string; bgColor: string; hoverColor: string }> = ({ title, section, bgColor, hoverColor }) => (
     <button
       onClick={() => toggleSection(section)}
@@ -136,53 +219,254 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
                 onChange={(value) => onInputChange('device', 'shippingInstall', value)}
                 type="currency"
               />
-              <InputField
-                label="Warranty (years)"
-                value={inputs.device.warrantyYears}
-                onChange={(value) => onInputChange('device', 'warrantyYears', value)}
-                min={1}
-                max={10}
-              />
-              <InputField
-                label="Extended Warranty Cost/Year"
-                value={inputs.device.extendedWarrantyCost}
-                onChange={(value) => onInputChange('device', 'extendedWarrantyCost', value)}
-                type="currency"
-              />
               <div className="mb-3">
                 <label className="block text-sm font-medium text-dark-300 mb-1">
                   Depreciation Method
                 </label>
                 <select
                   value={inputs.device.depreciationMethod}
-                  onChange={(e) => onInputChange('device', 'depreciationMethod', e.target.value)}
+                  onChange={(e) => {
+                    onInputChange('device', 'depreciationMethod', e.target.value);
+                    // MACRS only offers the 5- and 7-year recovery classes
+                    if (e.target.value === 'macrs' && ![5, 7].includes(inputs.device.depreciationLife)) {
+                      onInputChange('device', 'depreciationLife', 5);
+                    }
+                  }}
                   className="input-field"
                 >
                   <option value="straight-line">Straight Line</option>
                   <option value="macrs">MACRS</option>
                 </select>
               </div>
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Placed in Service
+                </label>
+                <select
+                  value={inputs.device.placedInServiceMonth}
+                  onChange={(e) => onInputChange('device', 'placedInServiceMonth', parseInt(e.target.value))}
+                  className="input-field"
+                >
+                  {MONTH_LABELS.map((label, index) => (
+                    <option key={label} value={index + 1}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {inputs.device.depreciationMethod === 'macrs' ? (
+                <>
+                  <div className="mb-3">
+                    <label className="block text-sm font-medium text-dark-300 mb-1">
+                      Recovery Class
+                    </label>
+                    <select
+                      value={inputs.device.depreciationLife}
+                      onChange={(e) => onInputChange('device', 'depreciationLife', parseInt(e.target.value))}
+                      className="input-field"
+                    >
+                      <option value={5}>5-Year Property</option>
+                      <option value={7}>7-Year Property</option>
+                    </select>
+                  </div>
+                  <div className="mb-3">
+                    <label className="block text-sm font-medium text-dark-300 mb-1">
+                      Method
+                    </label>
+                    <select
+                      value={inputs.device.decliningBalanceRate}
+                      onChange={(e) => onInputChange('device', 'decliningBalanceRate', parseInt(e.target.value))}
+                      className="input-field"
+                    >
+                      <option value={200}>200% Declining Balance</option>
+                      <option value={150}>150% Declining Balance</option>
+                    </select>
+                  </div>
+                  <div className="mb-3">
+                    <label className="block text-sm font-medium text-dark-300 mb-1">
+                      Convention
+                    </label>
+                    <select
+                      value={inputs.device.depreciationConvention}
+                      onChange={(e) => onInputChange('device', 'depreciationConvention', e.target.value)}
+                      className="input-field"
+                    >
+                      <option value="half-year">Half-Year</option>
+                      <option value="mid-quarter">Mid-Quarter</option>
+                    </select>
+                    <p className="text-xs text-dark-400 mt-1">
+                      Mid-quarter applies when over 40% of the year's equipment is placed in service in Q4.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <InputField
+                    label="Depreciation Life (years)"
+                    value={inputs.device.depreciationLife}
+                    onChange={(value) => onInputChange('device', 'depreciationLife', value)}
+                    min={1}
+                    max={20}
+                  />
+                  <InputField
+                    label="Salvage Value"
+                    value={inputs.device.salvageValue}
+                    onChange={(value) => onInputChange('device', 'salvageValue', value)}
+                    type="currency"
+                  />
+                </>
+              )}
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Entity Type
+                </label>
+                <select
+                  value={inputs.device.entityType}
+                  onChange={(e) => onInputChange('device', 'entityType', e.target.value)}
+                  className="input-field"
+                >
+                  <option value="pass-through">Pass-through (S-corp, LLC, partnership)</option>
+                  <option value="c-corp">C-corp</option>
+                </select>
+              </div>
               <InputField
-                label="Depreciation Life (years)"
-                value={inputs.device.depreciationLife}
-                onChange={(value) => onInputChange('device', 'depreciationLife', value)}
-                min={1}
-                max={20}
+                label={inputs.device.entityType === 'c-corp' ? 'Federal Corporate Tax Rate (%)' : "Owner's Federal Tax Rate (%)"}
+                value={inputs.device.federalTaxRate}
+                onChange={(value) => onInputChange('device', 'federalTaxRate', value)}
+                type="percent"
+                min={0}
+                max={50}
               />
               <InputField
-                label="Salvage Value"
-                value={inputs.device.salvageValue}
-                onChange={(value) => onInputChange('device', 'salvageValue', value)}
-                type="currency"
+                label="State Tax Rate (%)"
+                value={inputs.device.stateTaxRate}
+                onChange={(value) => onInputChange('device', 'stateTaxRate', value)}
+                type="percent"
+                min={0}
+                max={20}
+                step={0.1}
               />
+              <label className="flex items-center gap-3 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={inputs.device.stateConformity}
+                  onChange={(e) => onInputChange('device', 'stateConformity', e.target.checked)}
+                  className="rounded border-dark-600 bg-dark-700 text-blue-500 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-dark-300">State conforms to federal Section 179/bonus</span>
+              </label>
               <InputField
-                label="Tax Rate (%)"
-                value={inputs.device.taxRate}
-                onChange={(value) => onInputChange('device', 'taxRate', value)}
+                label="Local Tax Rate (%)"
+                value={inputs.device.localTaxRate}
+                onChange={(value) => onInputChange('device', 'localTaxRate', value)}
                 type="percent"
                 min={0}
-                max={50}
+                max={10}
+                step={0.1}
+              />
+              <div className="text-xs text-dark-400 mb-3">
+                Combined rate: {getCombinedTaxRate(inputs.device).toFixed(1)}%
+              </div>
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Tax Losses
+                </label>
+                <select
+                  value={inputs.device.taxLossTreatment}
+                  onChange={(e) => onInputChange('device', 'taxLossTreatment', e.target.value)}
+                  className="input-field"
+                >
+                  <option value="carryforward">Carry forward (NOL)</option>
+                  <option value="offset">Offset other practice income</option>
+                </select>
+              </div>
+              <InputField
+                label="Placed-in-Service Year"
+                value={inputs.device.placedInServiceYear}
+                onChange={(value) => onInputChange('device', 'placedInServiceYear', value)}
+                min={2020}
+                max={2040}
+              />
+              <label className="flex items-center gap-3 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={inputs.device.section179}
+                  onChange={(e) => onInputChange('device', 'section179', e.target.checked)}
+                  className="rounded border-dark-600 bg-dark-700 text-blue-500 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-dark-300">Elect Section 179 expensing</span>
+              </label>
+              {inputs.device.section179 && (
+                <>
+                  <InputField
+                    label="Section 179 Annual Limit"
+                    value={inputs.device.section179Limit}
+                    onChange={(value) => onInputChange('device', 'section179Limit', value)}
+                    type="currency"
+                  />
+                  <InputField
+                    label="Phase-Out Threshold"
+                    value={inputs.device.section179PhaseOutThreshold}
+                    onChange={(value) => onInputChange('device', 'section179PhaseOutThreshold', value)}
+                    type="currency"
+                  />
+                  <InputField
+                    label="Other Equipment Placed in Service This Year"
+                    value={inputs.device.otherEquipmentPurchases}
+                    onChange={(value) => onInputChange('device', 'otherEquipmentPurchases', value)}
+                    type="currency"
+                  />
+                </>
+              )}
+              <label className="flex items-center gap-3 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={inputs.device.bonusDepreciation}
+                  onChange={(e) => onInputChange('device', 'bonusDepreciation', e.target.checked)}
+                  className="rounded border-dark-600 bg-dark-700 text-blue-500 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-dark-300">Take bonus depreciation</span>
+              </label>
+              {inputs.device.bonusDepreciation && (
+                <InputField
+                  label={`Bonus Depreciation Rate (${inputs.device.placedInServiceYear})`}
+                  value={getBonusRate(inputs.device.bonusRates, inputs.device.placedInServiceYear)}
+                  onChange={(value) => onInputChange('device', 'bonusRates', {
+                    ...inputs.device.bonusRates,
+                    [inputs.device.placedInServiceYear]: value
+                  })}
+                  type="percent"
+                  min={0}
+                  max={100}
+                />
+              )}
+              {inputs.financing.purchaseMethod === 'lease-fmv' && (inputs.device.section179 || inputs.device.bonusDepreciation) && (
+                <p className="text-xs text-dark-400 mb-3">FMV leases are not eligible - the lessor owns the equipment.</p>
+              )}
+              <InputField
+                label="Sell Device in Month (0 = hold)"
+                value={inputs.device.disposalMonth}
+                onChange={(value) => onInputChange('device', 'disposalMonth', value)}
+                min={0}
+                max={60}
               />
+              {inputs.device.disposalMonth > 0 && (
+                <>
+                  <InputField
+                    label="Resale Price"
+                    value={inputs.device.resalePrice}
+                    onChange={(value) => onInputChange('device', 'resalePrice', value)}
+                    type="currency"
+                  />
+                  <InputField
+                    label="Selling Costs"
+                    value={inputs.device.sellingCosts}
+                    onChange={(value) => onInputChange('device', 'sellingCosts', value)}
+                    type="currency"
+                  />
+                  {inputs.financing.purchaseMethod === 'lease-fmv' && !(inputs.financing.leaseBuyout && inputs.device.disposalMonth > inputs.financing.termMonths) && (
+                    <p className="text-xs text-dark-400 mb-3">A leased device can only be sold after it is bought out at lease end.</p>
+                  )}
+                </>
+              )}
             </div>
           )}
         </div>
@@ -192,6 +476,7 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
           <SectionHeader title="Financing / Lease" section="financing" bgColor="bg-green-900/30" hoverColor="hover:bg-green-800/40" />
           {expandedSections.has('financing') && (
             <div className="p-4 bg-dark-800">
+              <LenderSelector inputs={inputs} onInputChange={onInputChange} />
               <div className="mb-3">
                 <label className="block text-sm font-medium text-dark-300 mb-1">
                   Purchase Method
@@ -236,6 +521,97 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
                 max={30}
                 step={0.1}
               />
+              {(inputs.financing.purchaseMethod === 'lease-fmv' || inputs.financing.purchaseMethod === 'lease-capital') && (
+                <>
+                  <div className="mb-3">
+                    <label className="block text-sm font-medium text-dark-300 mb-1">
+                      Lease Rate Basis
+                    </label>
+                    <select
+                      value={inputs.financing.leaseRateType}
+                      onChange={(e) => onInputChange('financing', 'leaseRateType', e.target.value)}
+                      className="input-field"
+                    >
+                      <option value="apr">APR</option>
+                      <option value="money-factor">Money Factor</option>
+                    </select>
+                  </div>
+                  {inputs.financing.leaseRateType === 'money-factor' && (
+                    <InputField
+                      label="Money Factor"
+                      value={inputs.financing.moneyFactor}
+                      onChange={(value) => onInputChange('financing', 'moneyFactor', value)}
+                      min={0}
+                      max={0.01}
+                      step={0.0001}
+                    />
+                  )}
+                  <InputField
+                    label="Residual / Buyout"
+                    value={inputs.financing.balloonResidual}
+                    onChange={(value) => onInputChange('financing', 'balloonResidual', value)}
+                    type={inputs.financing.balloonType === 'percent' ? 'percent' : 'currency'}
+                    min={0}
+                  />
+                  <div className="mb-3">
+                    <label className="block text-sm font-medium text-dark-300 mb-1">
+                      Residual Type
+                    </label>
+                    <select
+                      value={inputs.financing.balloonType}
+                      onChange={(e) => onInputChange('financing', 'balloonType', e.target.value)}
+                      className="input-field"
+                    >
+                      <option value="dollar">Dollar Amount</option>
+                      <option value="percent">Percentage</option>
+                    </select>
+                  </div>
+                  {inputs.financing.purchaseMethod === 'lease-fmv' && (
+                    <label className="flex items-center gap-3 mb-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={inputs.financing.leaseBuyout}
+                        onChange={(e) => onInputChange('financing', 'leaseBuyout', e.target.checked)}
+                        className="rounded border-dark-600 bg-dark-700 text-blue-500 focus:ring-blue-500"
+                      />
+                      <span className="text-sm font-medium text-dark-300">Buy out at FMV residual at lease end</span>
+                    </label>
+                  )}
+                </>
+              )}
+              {inputs.financing.purchaseMethod === 'promo-0' && (
+                <>
+                  <InputField
+                    label="0% Promo Window (months)"
+                    value={inputs.financing.promoMonths}
+                    onChange={(value) => onInputChange('financing', 'promoMonths', value)}
+                    min={0}
+                    max={inputs.financing.termMonths}
+                  />
+                  <div className="mb-3">
+                    <label className="block text-sm font-medium text-dark-300 mb-1">
+                      After Promo Window
+                    </label>
+                    <select
+                      value={inputs.financing.promoType}
+                      onChange={(e) => onInputChange('financing', 'promoType', e.target.value)}
+                      className="input-field"
+                    >
+                      <option value="standard-apr">Standard APR on remaining balance</option>
+                      <option value="deferred-interest">Deferred interest if balance remains</option>
+                    </select>
+                  </div>
+                  <label className="flex items-center gap-3 mb-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={inputs.financing.promoPayoff}
+                      onChange={(e) => onInputChange('financing', 'promoPayoff', e.target.checked)}
+                      className="rounded border-dark-600 bg-dark-700 text-blue-500 focus:ring-blue-500"
+                    />
+                    <span className="text-sm font-medium text-dark-300">Pay off within the promo window</span>
+                  </label>
+                </>
+              )}
               <InputField
                 label="Term (months)"
                 value={inputs.financing.termMonths}
@@ -243,12 +619,134 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
                 min={1}
                 max={120}
               />
+              {inputs.financing.purchaseMethod === 'loan' && (
+                <>
+                  <InputField
+                    label="Balloon at Maturity"
+                    value={inputs.financing.balloonResidual}
+                    onChange={(value) => onInputChange('financing', 'balloonResidual', value)}
+                    type={inputs.financing.balloonType === 'percent' ? 'percent' : 'currency'}
+                    min={0}
+                  />
+                  <div className="mb-3">
+                    <label className="block text-sm font-medium text-dark-300 mb-1">
+                      Balloon Type
+                    </label>
+                    <select
+                      value={inputs.financing.balloonType}
+                      onChange={(e) => onInputChange('financing', 'balloonType', e.target.value)}
+                      className="input-field"
+                    >
+                      <option value="dollar">Dollar Amount</option>
+                      <option value="percent">Percentage</option>
+                    </select>
+                  </div>
+                  <InputField
+                    label="Extra Principal/Month"
+                    value={inputs.financing.extraPrincipal}
+                    onChange={(value) => onInputChange('financing', 'extraPrincipal', value)}
+                    type="currency"
+                    min={0}
+                  />
+                  <InputField
+                    label="Pay Off Early in Month (0 = run to term)"
+                    value={inputs.financing.earlyPayoffMonth}
+                    onChange={(value) => onInputChange('financing', 'earlyPayoffMonth', value)}
+                    min={0}
+                    max={inputs.financing.termMonths}
+                  />
+                  <InputField
+                    label="Prepayment Penalty (%)"
+                    value={inputs.financing.prepaymentPenalty}
+                    onChange={(value) => onInputChange('financing', 'prepaymentPenalty', value)}
+                    type="percent"
+                    min={0}
+                    max={10}
+                    step={0.5}
+                  />
+                </>
+              )}
+              {inputs.financing.purchaseMethod !== 'cash' && (
+                <>
+                  <div className="mb-3">
+                    <label className="block text-sm font-medium text-dark-300 mb-1">
+                      Payment Frequency
+                    </label>
+                    <select
+                      value={inputs.financing.paymentFrequency}
+                      onChange={(e) => onInputChange('financing', 'paymentFrequency', e.target.value)}
+                      className="input-field"
+                    >
+                      <option value="monthly">Monthly</option>
+                      <option value="quarterly">Quarterly</option>
+                      <option value="semi-annual">Semi-Annual</option>
+                      <option value="annual">Annual</option>
+                    </select>
+                  </div>
+                  {inputs.financing.paymentFrequency === 'monthly' && (
+                    <div className="mb-3">
+                      <label className="block text-sm font-medium text-dark-300 mb-1">
+                        Seasonal Skip-Payment Months
+                      </label>
+                      <div className="grid grid-cols-6 gap-1">
+                        {MONTH_LABELS.map((label, index) => {
+                          const calendarMonth = index + 1;
+                          const skipped = inputs.financing.skipMonths.includes(calendarMonth);
+                          const blocked = !skipped && !isValidSkipList(
+                            inputs.financing,
+                            [...inputs.financing.skipMonths, calendarMonth],
+                            inputs.device.placedInServiceMonth
+                          );
+                          return (
+                            <button
+                              key={label}
+                              type="button"
+                              disabled={blocked}
+                              title={blocked ? 'At least one payment has to fall before the final payment' : undefined}
+                              onClick={() => onInputChange(
+                                'financing',
+                                'skipMonths',
+                                skipped
+                                  ? inputs.financing.skipMonths.filter(m => m !== calendarMonth)
+                                  : [...inputs.financing.skipMonths, calendarMonth].sort((a, b) => a - b)
+                              )}
+                              className={`px-1 py-1 rounded text-xs border transition-colors ${
+                                skipped
+                                  ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                                  : blocked
+                                    ? 'border-dark-700 text-dark-500 cursor-not-allowed'
+                                    : 'border-dark-600 text-dark-300 hover:border-dark-500'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                      {!isValidSkipList(inputs.financing, inputs.financing.skipMonths, inputs.device.placedInServiceMonth) && (
+                        <p className="text-xs text-yellow-400 mt-1">
+                          These months leave no payment before the final one, so they are ignored.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
               <InputField
                 label="Origination/Doc Fees"
                 value={inputs.financing.originationFees}
                 onChange={(value) => onInputChange('financing', 'originationFees', value)}
                 type="currency"
               />
+              <label className="flex items-center gap-3 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={inputs.financing.financeFees}
+                  onChange={(e) => onInputChange('financing', 'financeFees', e.target.checked)}
+                  className="rounded border-dark-600 bg-dark-700 text-blue-500 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-dark-300">Finance fees (otherwise paid up front)</span>
+              </label>
               <InputField
                 label="Deferred/No-Pay Promo Months"
                 value={inputs.financing.deferredMonths}
@@ -256,6 +754,41 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
                 min={0}
                 max={12}
               />
+              {inputs.financing.deferredMonths > 0 && (
+                <div className="mb-3">
+                  <label className="block text-sm font-medium text-dark-300 mb-1">
+                    Interest During Deferral
+                  </label>
+                  <select
+                    value={inputs.financing.deferralInterest}
+                    onChange={(e) => onInputChange('financing', 'deferralInterest', e.target.value)}
+                    className="input-field"
+                  >
+                    <option value="capitalize">Capitalized into balance</option>
+                    <option value="pay">Paid monthly (interest-only)</option>
+                  </select>
+                </div>
+              )}
+              <InputField
+                label="Sales Tax Rate (%)"
+                value={inputs.financing.salesTaxRate}
+                onChange={(value) => onInputChange('financing', 'salesTaxRate', value)}
+                type="percent"
+                min={0}
+                max={15}
+                step={0.1}
+              />
+              {inputs.financing.purchaseMethod !== 'cash' && (
+                <label className="flex items-center gap-3 mb-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={inputs.financing.includeSalesTax}
+                    onChange={(e) => onInputChange('financing', 'includeSalesTax', e.target.checked)}
+                    className="rounded border-dark-600 bg-dark-700 text-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-dark-300">Include sales tax in financing</span>
+                </label>
+              )}
             </div>
           )}
         </div>
@@ -289,11 +822,53 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
               />
               <InputField
                 label="Avg Treatment Time (min)"
-                value={inputs.utilization.avgTreatmentTime}
+                value={hasMenu ? Math.round(menuMix.treatmentTime) : inputs.utilization.avgTreatmentTime}
                 onChange={(value) => onInputChange('utilization', 'avgTreatmentTime', value)}
                 min={5}
                 max={120}
+                disabled={hasMenu}
+              />
+              <InputField
+                label="Hours Open/Day"
+                value={inputs.utilization.hoursPerDay}
+                onChange={(value) => onInputChange('utilization', 'hoursPerDay', value)}
+                min={1}
+                max={24}
+                step={0.5}
+              />
+              <InputField
+                label="Treatment Rooms"
+                value={inputs.utilization.treatmentRooms}
+                onChange={(value) => onInputChange('utilization', 'treatmentRooms', value)}
+                min={1}
+                max={10}
+              />
+              <InputField
+                label="Operators"
+                value={inputs.utilization.operators}
+                onChange={(value) => onInputChange('utilization', 'operators', value)}
+                min={1}
+                max={10}
               />
+              <InputField
+                label="Turnover Between Patients (min)"
+                value={inputs.utilization.turnoverMinutes}
+                onChange={(value) => onInputChange('utilization', 'turnoverMinutes', value)}
+                min={0}
+                max={60}
+              />
+              <InputField
+                label="Device Available for These Treatments (%)"
+                value={inputs.utilization.deviceAvailabilityPercent}
+                onChange={(value) => onInputChange('utilization', 'deviceAvailabilityPercent', value)}
+                type="percent"
+                min={0}
+                max={100}
+              />
+              <p className={`text-xs ${inputs.utilization.treatmentsPerDay > capacityLimits[limitingFactor] ? 'text-yellow-400' : 'text-dark-400'}`}>
+                At most {capacityLimits[limitingFactor]} treatments/day fit, limited by {CAPACITY_CONSTRAINT_LABELS[limitingFactor]}
+                {inputs.utilization.treatmentsPerDay > capacityLimits[limitingFactor] && ' - planned volume is capped at this'}
+              </p>
             </div>
           )}
         </div>
@@ -304,11 +879,105 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
           {expandedSections.has('pricing') && (
             <div className="p-4 bg-dark-800">
               <InputField
-                label="List Price/Treatment"
-                value={inputs.pricing.listPricePerTreatment}
+                label={hasMenu ? 'List Price/Treatment (menu average)' : 'List Price/Treatment'}
+                value={hasMenu ? Math.round(menuMix.listPrice) : inputs.pricing.listPricePerTreatment}
                 onChange={(value) => onInputChange('pricing', 'listPricePerTreatment', value)}
                 type="currency"
+                disabled={hasMenu}
               />
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Treatment Menu
+                </label>
+                {inputs.pricing.treatmentMenu.map((item, index) => (
+                  <div key={index} className="mb-3 p-2 rounded border border-dark-600">
+                    <div className="flex items-center mb-2">
+                      <input
+                        type="text"
+                        value={item.name}
+                        onChange={(e) => renameMenuItem(index, e.target.value)}
+                        className="input-field"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => onInputChange('pricing', 'treatmentMenu', inputs.pricing.treatmentMenu.filter((_, i) => i !== index))}
+                        className="ml-2 text-dark-400 hover:text-red-400"
+                        title="Remove treatment"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <InputField
+                        label="Price"
+                        value={item.price}
+                        onChange={(value) => updateMenuItem(index, { price: value })}
+                        type="currency"
+                      />
+                      <InputField
+                        label="Time (min)"
+                        value={item.treatmentTime}
+                        onChange={(value) => updateMenuItem(index, { treatmentTime: value })}
+                        min={5}
+                        max={120}
+                      />
+                      <InputField
+                        label="Consumables"
+                        value={item.consumables}
+                        onChange={(value) => updateMenuItem(index, { consumables: value })}
+                        type="currency"
+                      />
+                      <InputField
+                        label="Mix (%)"
+                        value={item.mixPercent}
+                        onChange={(value) => updateMenuItem(index, { mixPercent: value })}
+                        type="percent"
+                        min={0}
+                        max={100}
+                      />
+                    </div>
+                    <label className="block text-xs text-dark-400 mb-1">
+                      Ramp (% of volume by month, comma-separated)
+                    </label>
+                    <input
+                      key={item.ramp.join(',')}
+                      type="text"
+                      defaultValue={item.ramp.join(', ')}
+                      onBlur={(e) => updateMenuItem(index, {
+                        ramp: e.target.value
+                          .split(',')
+                          .map(value => parseFloat(value))
+                          .filter(value => !Number.isNaN(value))
+                      })}
+                      placeholder="Fully ramped from month 1"
+                      className="input-field"
+                    />
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => onInputChange('pricing', 'treatmentMenu', [
+                    ...inputs.pricing.treatmentMenu,
+                    {
+                      name: `Treatment ${inputs.pricing.treatmentMenu.length + 1}`,
+                      price: inputs.pricing.listPricePerTreatment,
+                      treatmentTime: inputs.utilization.avgTreatmentTime,
+                      consumables: inputs.variableCosts.consumables,
+                      mixPercent: 0,
+                      ramp: []
+                    }
+                  ])}
+                  className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add treatment
+                </button>
+                {hasMenu && (
+                  <p className="text-xs text-dark-400 mt-1">
+                    Price, treatment time and consumables are averaged across the menu by mix - split evenly until a mix is entered.
+                  </p>
+                )}
+              </div>
               <InputField
                 label="Discounts/Promos (%)"
                 value={inputs.pricing.discountPercent}
@@ -331,20 +1000,97 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
                 min={0}
                 max={100}
               />
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Treatment Packages
+                </label>
+                {inputs.pricing.packages.map((pkg, index) => (
+                  <div key={index} className="grid grid-cols-3 gap-2 items-start">
+                    <InputField
+                      label="Sessions"
+                      value={pkg.sessions}
+                      onChange={(value) => updatePackage(index, 'sessions', Math.max(1, Math.round(value)))}
+                      min={1}
+                    />
+                    <InputField
+                      label="Price"
+                      value={pkg.price}
+                      onChange={(value) => updatePackage(index, 'price', value)}
+                      type="currency"
+                    />
+                    <div className="relative">
+                      <InputField
+                        label="% of Patients"
+                        value={pkg.attachRate}
+                        onChange={(value) => updatePackage(index, 'attachRate', value)}
+                        type="percent"
+                        min={0}
+                        max={100}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => onInputChange('pricing', 'packages', inputs.pricing.packages.filter((_, i) => i !== index))}
+                        className="absolute top-0 right-0 text-dark-400 hover:text-red-400"
+                        title="Remove package"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => onInputChange('pricing', 'packages', [...inputs.pricing.packages, { sessions: 6, price: 2500, attachRate: 0 }])}
+                  className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add package
+                </button>
+              </div>
+              {inputs.pricing.packages.length > 0 && (
+                <InputField
+                  label="Package Breakage (% of sessions never redeemed)"
+                  value={inputs.pricing.packageBreakagePercent}
+                  onChange={(value) => onInputChange('pricing', 'packageBreakagePercent', value)}
+                  type="percent"
+                  min={0}
+                  max={50}
+                />
+              )}
+              <div className="text-xs text-dark-400 mb-3">
+                Net price per treatment: ${getSingleSessionPrice(inputs.pricing).toFixed(0)} single session,
+                ${calculateBlendedNetPrice(inputs.pricing).toFixed(0)} blended with packages and upsells
+              </div>
               <InputField
-                label="Membership MRR"
+                label="Membership Dues (per member/month)"
                 value={inputs.pricing.membershipMRR}
                 onChange={(value) => onInputChange('pricing', 'membershipMRR', value)}
                 type="currency"
               />
               <InputField
-                label="Membership % of Patients"
-                value={inputs.pricing.membershipPercent}
-                onChange={(value) => onInputChange('pricing', 'membershipPercent', value)}
+                label="New Patients Who Join (%)"
+                value={inputs.pricing.membershipConversionPercent}
+                onChange={(value) => onInputChange('pricing', 'membershipConversionPercent', value)}
                 type="percent"
                 min={0}
                 max={100}
               />
+              <InputField
+                label="Monthly Member Churn (%)"
+                value={inputs.pricing.membershipChurnPercent}
+                onChange={(value) => onInputChange('pricing', 'membershipChurnPercent', value)}
+                type="percent"
+                min={0}
+                max={100}
+              />
+              <InputField
+                label="Included Treatments (per member/month)"
+                value={inputs.pricing.membershipIncludedTreatments}
+                onChange={(value) => onInputChange('pricing', 'membershipIncludedTreatments', value)}
+                min={0}
+                max={4}
+                step={0.25}
+              />
             </div>
           )}
         </div>
@@ -355,10 +1101,11 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
           {expandedSections.has('variableCosts') && (
             <div className="p-4 bg-dark-800">
               <InputField
-                label="Consumables"
-                value={inputs.variableCosts.consumables}
+                label={hasMenu ? 'Consumables (treatment menu average)' : 'Consumables'}
+                value={hasMenu ? Math.round(menuMix.consumables * 100) / 100 : inputs.variableCosts.consumables}
                 onChange={(value) => onInputChange('variableCosts', 'consumables', value)}
                 type="currency"
+                disabled={hasMenu}
               />
               <InputField
                 label="Disposables"
@@ -366,12 +1113,6 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
                 onChange={(value) => onInputChange('variableCosts', 'disposables', value)}
                 type="currency"
               />
-              <InputField
-                label="Clinical Time Cost ($/hr)"
-                value={inputs.variableCosts.clinicalTimeCost}
-                onChange={(value) => onInputChange('variableCosts', 'clinicalTimeCost', value)}
-                type="currency"
-              />
               <InputField
                 label="Room Time Overhead ($/hr)"
                 value={inputs.variableCosts.roomTimeOverhead}
@@ -398,6 +1139,140 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
           )}
         </div>
 
+        {/* Providers & Compensation */}
+        <div className="mb-4">
+          <SectionHeader title="Providers & Compensation" section="staffing" bgColor="bg-rose-900/30" hoverColor="hover:bg-rose-800/40" />
+          {expandedSections.has('staffing') && (
+            <div className="p-4 bg-dark-800">
+              {inputs.staffing.providers.map((provider, index) => (
+                <div key={index} className="mb-3 p-2 rounded border border-dark-600">
+                  <div className="flex items-center mb-2">
+                    <input
+                      type="text"
+                      value={provider.name}
+                      onChange={(e) => updateProvider(index, { name: e.target.value })}
+                      className="input-field"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => onInputChange('staffing', 'providers', inputs.staffing.providers.filter((_, i) => i !== index))}
+                      className="ml-2 text-dark-400 hover:text-red-400"
+                      title="Remove provider"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="mb-3">
+                    <select
+                      value={provider.role}
+                      onChange={(e) => updateProvider(index, { role: e.target.value as Provider['role'] })}
+                      className="input-field"
+                    >
+                      {PROVIDER_ROLES.map(({ role, label }) => (
+                        <option key={role} value={role}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <InputField
+                      label="Share of Schedule (%)"
+                      value={provider.schedulePercent}
+                      onChange={(value) => updateProvider(index, { schedulePercent: value })}
+                      type="percent"
+                      min={0}
+                      max={100}
+                    />
+                    <InputField
+                      label="Salary/Month"
+                      value={provider.monthlySalary}
+                      onChange={(value) => updateProvider(index, { monthlySalary: value })}
+                      type="currency"
+                    />
+                    <InputField
+                      label="Hourly Rate"
+                      value={provider.hourlyRate}
+                      onChange={(value) => updateProvider(index, { hourlyRate: value })}
+                      type="currency"
+                    />
+                    <InputField
+                      label="Commission (%)"
+                      value={provider.commissionPercent}
+                      onChange={(value) => updateProvider(index, { commissionPercent: value })}
+                      type="percent"
+                      min={0}
+                      max={100}
+                    />
+                    <InputField
+                      label="Per-Treatment Fee"
+                      value={provider.perTreatmentFee}
+                      onChange={(value) => updateProvider(index, { perTreatmentFee: value })}
+                      type="currency"
+                    />
+                    <InputField
+                      label="Bonus (%)"
+                      value={provider.bonusPercent}
+                      onChange={(value) => updateProvider(index, { bonusPercent: value })}
+                      type="percent"
+                      min={0}
+                      max={100}
+                    />
+                    <InputField
+                      label="Bonus Above ($ revenue/mo)"
+                      value={provider.bonusThreshold}
+                      onChange={(value) => updateProvider(index, { bonusThreshold: value })}
+                      type="currency"
+                    />
+                  </div>
+                  {hasMenu && (
+                    <div>
+                      <label className="block text-xs text-dark-400 mb-1">
+                        Performs (none ticked = everything)
+                      </label>
+                      {inputs.pricing.treatmentMenu.map(item => (
+                        <label key={item.name} className="flex items-center text-xs text-dark-300">
+                          <input
+                            type="checkbox"
+                            checked={provider.treatments.includes(item.name)}
+                            onChange={() => toggleProviderTreatment(index, item.name)}
+                            className="mr-2"
+                          />
+                          {item.name}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => onInputChange('staffing', 'providers', [
+                  ...inputs.staffing.providers,
+                  {
+                    name: `Provider ${inputs.staffing.providers.length + 1}`,
+                    role: 'aesthetician',
+                    schedulePercent: 100,
+                    treatments: [],
+                    monthlySalary: 0,
+                    hourlyRate: 0,
+                    commissionPercent: 0,
+                    perTreatmentFee: 0,
+                    bonusPercent: 0,
+                    bonusThreshold: 0
+                  }
+                ])}
+                className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add provider
+              </button>
+              <p className="text-xs text-dark-400 mt-1">
+                Treatments are shared among the providers who can do them by share of schedule. Salaries are fixed costs;
+                hourly, commission, per-treatment and bonus pay are variable. Commission and bonus are on treatment revenue.
+              </p>
+            </div>
+          )}
+        </div>
+
         {/* Fixed Opex */}
         <div className="mb-4">
           <SectionHeader title="Fixed Opex (monthly)" section="fixedOpex" bgColor="bg-teal-900/30" hoverColor="hover:bg-teal-800/40" />
@@ -409,12 +1284,6 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
                 onChange={(value) => onInputChange('fixedOpex', 'marketingBudget', value)}
                 type="currency"
               />
-              <InputField
-                label="Staff Salary Allocation"
-                value={inputs.fixedOpex.staffSalaryAllocation}
-                onChange={(value) => onInputChange('fixedOpex', 'staffSalaryAllocation', value)}
-                type="currency"
-              />
               <InputField
                 label="Rent Allocation"
                 value={inputs.fixedOpex.rentAllocation}
@@ -433,25 +1302,405 @@ const InputPanel: React.FC<InputPanelProps> = ({ inputs, onInputChange, onDevice
                 onChange={(value) => onInputChange('fixedOpex', 'softwareEMR', value)}
                 type="currency"
               />
-              <InputField
-                label="Maintenance (post-warranty)"
-                value={inputs.fixedOpex.maintenancePostWarranty}
-                onChange={(value) => onInputChange('fixedOpex', 'maintenancePostWarranty', value)}
-                type="currency"
-              />
               <InputField
                 label="Calibration/Service Contracts"
                 value={inputs.fixedOpex.calibrationService}
                 onChange={(value) => onInputChange('fixedOpex', 'calibrationService', value)}
                 type="currency"
               />
+            </div>
+          )}
+        </div>
+
+        {/* Service & Warranty */}
+        <div className="mb-4">
+          <SectionHeader title="Service & Warranty" section="service" bgColor="bg-sky-900/30" hoverColor="hover:bg-sky-800/40" />
+          {expandedSections.has('service') && (
+            <div className="p-4 bg-dark-800">
               <InputField
-                label="Downtime Reserve (%)"
-                value={inputs.fixedOpex.downtimeReserve}
-                onChange={(value) => onInputChange('fixedOpex', 'downtimeReserve', value)}
+                label="OEM Warranty (years)"
+                value={inputs.device.warrantyYears}
+                onChange={(value) => onInputChange('device', 'warrantyYears', value)}
+                min={0}
+                max={10}
+              />
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  After the Warranty
+                </label>
+                <select
+                  value={inputs.service.coverage}
+                  onChange={(e) => onInputChange('service', 'coverage', e.target.value)}
+                  className="input-field"
+                >
+                  {SERVICE_COVERAGE_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {inputs.service.coverage === 'extended-warranty' && (
+                <>
+                  <InputField
+                    label="Extended Warranty Cost/Year"
+                    value={inputs.device.extendedWarrantyCost}
+                    onChange={(value) => onInputChange('device', 'extendedWarrantyCost', value)}
+                    type="currency"
+                  />
+                  <InputField
+                    label="Extended Warranty (years)"
+                    value={inputs.service.extendedWarrantyYears}
+                    onChange={(value) => onInputChange('service', 'extendedWarrantyYears', value)}
+                    min={1}
+                    max={10}
+                  />
+                </>
+              )}
+              <InputField
+                label={inputs.service.coverage === 'extended-warranty' ? 'Maintenance Once Coverage Ends ($/mo)' : 'Maintenance ($/mo)'}
+                value={inputs.service.maintenancePerMonth}
+                onChange={(value) => onInputChange('service', 'maintenancePerMonth', value)}
+                type="currency"
+              />
+              <InputField
+                label="Service Cost Increase per Year (%)"
+                value={inputs.service.escalationPercent}
+                onChange={(value) => onInputChange('service', 'escalationPercent', value)}
                 type="percent"
                 min={0}
                 max={20}
+                step={0.5}
+              />
+              {uncoveredMonths > 0 ? (
+                <p className="text-xs text-yellow-400">
+                  Financing runs {uncoveredMonths} months past warranty coverage - repairs in those months come on top of the payments.
+                </p>
+              ) : (
+                <p className="text-xs text-dark-400">
+                  Covered through month {coverageEndMonth}; nothing is charged for service under the OEM warranty.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Replacement Parts */}
+        <div className="mb-4">
+          <SectionHeader title="Handpieces & Replacement Parts" section="lifecycle" bgColor="bg-lime-900/30" hoverColor="hover:bg-lime-800/40" />
+          {expandedSections.has('lifecycle') && (
+            <div className="p-4 bg-dark-800">
+              {inputs.lifecycle.parts.map((part, index) => (
+                <div key={index} className="mb-3 p-2 rounded border border-dark-600">
+                  <div className="flex items-center mb-2">
+                    <input
+                      type="text"
+                      value={part.name}
+                      onChange={(e) => updatePart(index, { name: e.target.value })}
+                      className="input-field"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => onInputChange('lifecycle', 'parts', inputs.lifecycle.parts.filter((_, i) => i !== index))}
+                      className="ml-2 text-dark-400 hover:text-red-400"
+                      title="Remove part"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <InputField
+                      label="Replacement Cost"
+                      value={part.cost}
+                      onChange={(value) => updatePart(index, { cost: value })}
+                      type="currency"
+                    />
+                    <InputField
+                      label="Lead Time (months)"
+                      value={part.leadTimeMonths}
+                      onChange={(value) => updatePart(index, { leadTimeMonths: value })}
+                      min={0}
+                      max={12}
+                    />
+                    <InputField
+                      label="Life (treatments)"
+                      value={part.lifeTreatments}
+                      onChange={(value) => updatePart(index, { lifeTreatments: value })}
+                      min={0}
+                    />
+                    <InputField
+                      label="Life (months)"
+                      value={part.lifeMonths}
+                      onChange={(value) => updatePart(index, { lifeMonths: value })}
+                      min={0}
+                      max={120}
+                    />
+                  </div>
+                  {hasMenu && (
+                    <div>
+                      <label className="block text-xs text-dark-400 mb-1">
+                        Used for (none ticked = everything)
+                      </label>
+                      {inputs.pricing.treatmentMenu.map(item => (
+                        <label key={item.name} className="flex items-center text-xs text-dark-300">
+                          <input
+                            type="checkbox"
+                            checked={part.treatments.includes(item.name)}
+                            onChange={() => togglePartTreatment(index, item.name)}
+                            className="mr-2"
+                          />
+                          {item.name}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => onInputChange('lifecycle', 'parts', [
+                  ...inputs.lifecycle.parts,
+                  {
+                    name: `Part ${inputs.lifecycle.parts.length + 1}`,
+                    cost: 0,
+                    lifeTreatments: 0,
+                    lifeMonths: 12,
+                    leadTimeMonths: 0,
+                    treatments: []
+                  }
+                ])}
+                className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add part
+              </button>
+              <p className="text-xs text-dark-400 mt-1">
+                A part is replaced after its treatments or its months, whichever comes first (0 = no limit). The cost is
+                expensed when the new part goes in and paid when it is ordered, lead time ahead; prices rise with consumables inflation.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Revenue Reserves */}
+        <div className="mb-4">
+          <SectionHeader title="Revenue Reserves (% of revenue)" section="reserves" bgColor="bg-amber-900/30" hoverColor="hover:bg-amber-800/40" />
+          {expandedSections.has('reserves') && (
+            <div className="p-4 bg-dark-800">
+              {RESERVE_LINES.map(({ input, label }) => (
+                <InputField
+                  key={input}
+                  label={`${label} (%)`}
+                  value={inputs.reserves[input]}
+                  onChange={(value) => onInputChange('reserves', input, value)}
+                  type="percent"
+                  min={0}
+                  max={20}
+                  step={0.1}
+                />
+              ))}
+              <p className="text-xs text-dark-400">
+                {(getReserveRate(inputs.reserves) * 100).toFixed(1)}% of revenue held back in total
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Marketing */}
+        <div className="mb-4">
+          <SectionHeader title="Marketing & Patient Acquisition" section="marketing" bgColor="bg-pink-900/30" hoverColor="hover:bg-pink-800/40" />
+          {expandedSections.has('marketing') && (
+            <div className="p-4 bg-dark-800">
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Treatment Volume Driven By
+                </label>
+                <select
+                  value={inputs.marketing.volumeDriver}
+                  onChange={(e) => onInputChange('marketing', 'volumeDriver', e.target.value)}
+                  className="input-field"
+                >
+                  {VOLUME_DRIVERS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-dark-400 mt-1">
+                  {inputs.marketing.volumeDriver === 'funnel'
+                    ? 'New patients come from the funnel below, capped by Treatments/Day. The utilization ramp is not used.'
+                    : 'Volume follows the utilization ramp. New patients (who buy packages and memberships) come from the funnel below; returning patients book the rest.'}
+                </p>
+              </div>
+              <InputField
+                label="Cost per Lead"
+                value={inputs.marketing.costPerLead}
+                onChange={(value) => onInputChange('marketing', 'costPerLead', value)}
+                type="currency"
+                min={0}
+              />
+              <InputField
+                label="Organic & Referral Leads/Month"
+                value={inputs.marketing.organicLeadsPerMonth}
+                onChange={(value) => onInputChange('marketing', 'organicLeadsPerMonth', value)}
+                min={0}
+              />
+              <InputField
+                label="Lead to Consult (%)"
+                value={inputs.marketing.consultRate}
+                onChange={(value) => onInputChange('marketing', 'consultRate', value)}
+                type="percent"
+                min={0}
+                max={100}
+              />
+              <InputField
+                label="Consult to Booking (%)"
+                value={inputs.marketing.bookingRate}
+                onChange={(value) => onInputChange('marketing', 'bookingRate', value)}
+                type="percent"
+                min={0}
+                max={100}
+              />
+              <p className="text-xs text-dark-400">
+                ${inputs.fixedOpex.marketingBudget.toFixed(0)}/month of marketing (Fixed Opex) brings in about {funnel.leads.toFixed(0)} leads
+                and {funnel.newPatients.toFixed(0)} new patients a month after no-shows
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Escalation */}
+        <div className="mb-4">
+          <SectionHeader title="Escalation & Inflation (annual)" section="escalation" bgColor="bg-cyan-900/30" hoverColor="hover:bg-cyan-800/40" />
+          {expandedSections.has('escalation') && (
+            <div className="p-4 bg-dark-800">
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Increases Take Effect In
+                </label>
+                <select
+                  value={inputs.escalation.anniversaryMonth}
+                  onChange={(e) => onInputChange('escalation', 'anniversaryMonth', parseInt(e.target.value))}
+                  className="input-field"
+                >
+                  {MONTH_LABELS.map((label, index) => (
+                    <option key={label} value={index + 1}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <InputField
+                label="Treatment Price Increase (%)"
+                value={inputs.escalation.priceIncrease}
+                onChange={(value) => onInputChange('escalation', 'priceIncrease', value)}
+                type="percent"
+                min={0}
+                max={20}
+                step={0.5}
+              />
+              <InputField
+                label="Consumables Inflation (%)"
+                value={inputs.escalation.consumablesInflation}
+                onChange={(value) => onInputChange('escalation', 'consumablesInflation', value)}
+                type="percent"
+                min={0}
+                max={20}
+                step={0.5}
+              />
+              <InputField
+                label="Labor Inflation (%)"
+                value={inputs.escalation.laborInflation}
+                onChange={(value) => onInputChange('escalation', 'laborInflation', value)}
+                type="percent"
+                min={0}
+                max={20}
+                step={0.5}
+              />
+              <InputField
+                label="Rent Escalator (%)"
+                value={inputs.escalation.rentEscalator}
+                onChange={(value) => onInputChange('escalation', 'rentEscalator', value)}
+                type="percent"
+                min={0}
+                max={20}
+                step={0.5}
+              />
+              <InputField
+                label="Insurance Growth (%)"
+                value={inputs.escalation.insuranceGrowth}
+                onChange={(value) => onInputChange('escalation', 'insuranceGrowth', value)}
+                type="percent"
+                min={0}
+                max={20}
+                step={0.5}
+              />
+              <InputField
+                label="General Inflation (%)"
+                value={inputs.escalation.generalInflation}
+                onChange={(value) => onInputChange('escalation', 'generalInflation', value)}
+                type="percent"
+                min={0}
+                max={20}
+                step={0.5}
+              />
+              <p className="text-xs text-dark-400">
+                General inflation applies to marketing, software and service costs, and restates NPV in today's dollars.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Accounting */}
+        <div className="mb-4">
+          <SectionHeader title="Accounting & Cash Timing" section="accounting" bgColor="bg-indigo-900/30" hoverColor="hover:bg-indigo-800/40" />
+          {expandedSections.has('accounting') && (
+            <div className="p-4 bg-dark-800">
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Accounting Basis
+                </label>
+                <select
+                  value={inputs.accounting.basis}
+                  onChange={(e) => onInputChange('accounting', 'basis', e.target.value)}
+                  className="input-field"
+                >
+                  {ACCOUNTING_BASES.map(({ basis, label }) => (
+                    <option key={basis} value={basis}>{label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-dark-400 mt-1">
+                  {inputs.accounting.basis === 'cash'
+                    ? 'Income and costs when the money moves - prepayments up front, no depreciation.'
+                    : 'Income as it is earned and costs as they are used, with depreciation.'}
+                </p>
+              </div>
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Membership Billing
+                </label>
+                <select
+                  value={inputs.accounting.membershipBilling}
+                  onChange={(e) => onInputChange('accounting', 'membershipBilling', e.target.value)}
+                  className="input-field"
+                >
+                  <option value="monthly">Monthly</option>
+                  <option value="annual">Annual, prepaid</option>
+                </select>
+              </div>
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-dark-300 mb-1">
+                  Insurance Billing
+                </label>
+                <select
+                  value={inputs.accounting.insuranceBilling}
+                  onChange={(e) => onInputChange('accounting', 'insuranceBilling', e.target.value)}
+                  className="input-field"
+                >
+                  <option value="monthly">Monthly</option>
+                  <option value="annual">Annual premium</option>
+                </select>
+              </div>
+              <InputField
+                label="Inventory Ordered (months of supply)"
+                value={inputs.accounting.inventoryOrderMonths}
+                onChange={(value) => onInputChange('accounting', 'inventoryOrderMonths', value)}
+                min={1}
+                max={12}
               />
             </div>
           )}
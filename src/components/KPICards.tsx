@@ -1,12 +1,14 @@
 import React from 'react';
-import type { KPIs } from '../utils/calculations';
+import type { AccountingInputs, KPIs } from '../utils/calculations';
+import { getPaymentLabel } from '../utils/financing';
 import { DollarSign, TrendingUp, Target, Clock, Calculator, BarChart3 } from 'lucide-react';
 
 interface KPICardsProps {
   kpis: KPIs;
+  basis: AccountingInputs['basis'];
 }
 
-const KPICards: React.FC<KPICardsProps> = ({ kpis }) => {
+const KPICards: React.FC<KPICardsProps> = ({ kpis, basis }) => {
   const formatCurrency = (value: number) => 
     new Intl.NumberFormat('en-US', { 
       style: 'currency', 
@@ -21,7 +23,7 @@ const KPICards: React.FC<KPICardsProps> = ({ kpis }) => {
 
   const kpiData = [
     {
-      title: 'Monthly Payment',
+      title: getPaymentLabel(kpis.paymentFrequency),
       value: formatCurrency(kpis.monthlyPayment),
       icon: DollarSign,
       color: 'text-blue-400',
@@ -29,7 +31,7 @@ const KPICards: React.FC<KPICardsProps> = ({ kpis }) => {
       borderColor: 'border-blue-500/20'
     },
     {
-      title: 'Monthly Revenue',
+      title: basis === 'cash' ? 'Monthly Receipts' : 'Monthly Revenue',
       value: formatCurrency(kpis.monthlyRevenue),
       icon: TrendingUp,
       color: 'text-green-400',
@@ -37,7 +39,7 @@ const KPICards: React.FC<KPICardsProps> = ({ kpis }) => {
       borderColor: 'border-green-500/20'
     },
     {
-      title: 'Monthly EBITDA',
+      title: basis === 'cash' ? 'Monthly EBITDA (cash)' : 'Monthly EBITDA',
       value: formatCurrency(kpis.monthlyEBITDA),
       icon: BarChart3,
       color: 'text-purple-400',
@@ -67,35 +69,284 @@ const KPICards: React.FC<KPICardsProps> = ({ kpis }) => {
       color: 'text-indigo-400',
       bgColor: 'bg-indigo-500/10',
       borderColor: 'border-indigo-500/20'
+    },
+    {
+      title: "Real NPV (today's dollars)",
+      value: formatCurrency(kpis.realNpv),
+      icon: Calculator,
+      color: 'text-cyan-400',
+      bgColor: 'bg-cyan-500/10',
+      borderColor: 'border-cyan-500/20'
     }
   ];
 
+  const promo = kpis.promoComparison;
+  const prepayment = kpis.prepaymentAnalysis;
+  const disposal = kpis.disposal;
+  const packages = kpis.packages;
+  const membership = kpis.membership;
+  const marketing = kpis.marketing;
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
-      {kpiData.map((kpi, index) => {
-        const IconComponent = kpi.icon;
-        return (
-          <div
-            key={index}
-            className={`kpi-card ${kpi.bgColor} ${kpi.borderColor}`}
-          >
-            <div className="flex items-center justify-between mb-2">
-              <div className={`p-2 rounded-lg ${kpi.bgColor}`}>
-                <IconComponent className={`h-5 w-5 ${kpi.color}`} />
-              </div>
-              <div className="text-right">
-                <div className={`text-2xl font-bold ${kpi.color}`}>
-                  {kpi.value}
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
+        {kpiData.map((kpi, index) => {
+          const IconComponent = kpi.icon;
+          return (
+            <div
+              key={index}
+              className={`kpi-card ${kpi.bgColor} ${kpi.borderColor}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <div className={`p-2 rounded-lg ${kpi.bgColor}`}>
+                  <IconComponent className={`h-5 w-5 ${kpi.color}`} />
                 </div>
-                <div className="text-sm text-dark-400">
-                  {kpi.title}
+                <div className="text-right">
+                  <div className={`text-2xl font-bold ${kpi.color}`}>
+                    {kpi.value}
+                  </div>
+                  <div className="text-sm text-dark-400">
+                    {kpi.title}
+                  </div>
                 </div>
               </div>
             </div>
+          );
+        })}
+      </div>
+
+      {promo && (
+        <div className="card mb-8">
+          <h3 className="text-lg font-semibold text-dark-100 mb-4">0% Promo vs Standard Loan</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-dark-600">
+                  <th className="text-left py-2 px-3 text-dark-300"></th>
+                  <th className="text-right py-2 px-3 text-dark-300">0% Promo</th>
+                  <th className="text-right py-2 px-3 text-dark-300">Standard Loan</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-dark-700">
+                  <td className="py-2 px-3 text-dark-200">Monthly Payment</td>
+                  <td className="py-2 px-3 text-right text-dark-200">
+                    {formatCurrency(promo.promoPayment)}
+                    {promo.postPromoPayment > 0 && promo.postPromoPayment !== promo.promoPayment && ` → ${formatCurrency(promo.postPromoPayment)}`}
+                  </td>
+                  <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(promo.standardPayment)}</td>
+                </tr>
+                <tr className="border-b border-dark-700">
+                  <td className="py-2 px-3 text-dark-200">Deferred Interest Charged</td>
+                  <td className={`py-2 px-3 text-right ${promo.deferredInterest > 0 ? 'text-red-400' : 'text-dark-200'}`}>
+                    {formatCurrency(promo.deferredInterest)}
+                  </td>
+                  <td className="py-2 px-3 text-right text-dark-200">—</td>
+                </tr>
+                <tr className="border-b border-dark-700">
+                  <td className="py-2 px-3 text-dark-200">Total Paid</td>
+                  <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(promo.promoTotalPaid)}</td>
+                  <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(promo.standardTotalPaid)}</td>
+                </tr>
+                <tr>
+                  <td className="py-2 px-3 text-dark-200">Promo Savings</td>
+                  <td className={`py-2 px-3 text-right font-semibold ${promo.savings >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatCurrency(promo.savings)}
+                  </td>
+                  <td className="py-2 px-3 text-right text-dark-200"></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {prepayment && (
+        <div className="card mb-8">
+          <h3 className="text-lg font-semibold text-dark-100 mb-4">Early Payoff vs Full Term</h3>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <div>
+              <div className="text-dark-400">Paid Off</div>
+              <div className="text-dark-100 font-semibold">Month {prepayment.payoffMonth}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Interest Saved</div>
+              <div className="text-green-400 font-semibold">{formatCurrency(prepayment.interestSaved)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Penalty Charged</div>
+              <div className={`font-semibold ${prepayment.penaltyCharged > 0 ? 'text-red-400' : 'text-dark-100'}`}>
+                {formatCurrency(prepayment.penaltyCharged)}
+              </div>
+            </div>
+            <div>
+              <div className="text-dark-400">NPV Change</div>
+              <div className={`font-semibold ${prepayment.npvChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatCurrency(prepayment.npvChange)}
+              </div>
+            </div>
+            <div>
+              <div className="text-dark-400">Payback Change</div>
+              <div className="text-dark-100 font-semibold">
+                {prepayment.paybackChange > 0 ? '+' : ''}{formatNumber(prepayment.paybackChange, 0)} months
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {disposal && (
+        <div className="card mb-8">
+          <h3 className="text-lg font-semibold text-dark-100 mb-4">Sale in Month {disposal.month}</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-dark-400">Sale Price</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(disposal.salePrice)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Selling Costs</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(disposal.sellingCosts)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Book Value</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(disposal.bookValue)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Gain / (Loss) vs Book</div>
+              <div className={`font-semibold ${disposal.gainOnSale >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatCurrency(disposal.gainOnSale)}
+              </div>
+            </div>
+            <div>
+              <div className="text-dark-400">Depreciation Recapture</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(disposal.depreciationRecapture)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Tax on Sale</div>
+              <div className={`font-semibold ${disposal.taxOnSale > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {formatCurrency(disposal.taxOnSale)}
+              </div>
+            </div>
+            <div>
+              <div className="text-dark-400">Loan Payoff</div>
+              <div className="text-dark-100 font-semibold">
+                {formatCurrency(disposal.loanPayoff + disposal.prepaymentPenalty)}
+              </div>
+            </div>
+            <div>
+              <div className="text-dark-400">Net Proceeds</div>
+              <div className={`font-semibold ${disposal.netProceeds >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatCurrency(disposal.netProceeds)}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {packages && (
+        <div className="card mb-8">
+          <h3 className="text-lg font-semibold text-dark-100 mb-4">Treatment Packages</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-dark-400">Single-Session Price</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(packages.singleSessionPrice)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Blended Net Price / Tx</div>
+              <div className={`font-semibold ${packages.blendedNetPrice >= packages.singleSessionPrice ? 'text-green-400' : 'text-yellow-400'}`}>
+                {formatCurrency(packages.blendedNetPrice)}
+              </div>
+            </div>
+            <div>
+              <div className="text-dark-400">Treatments from Packages</div>
+              <div className="text-dark-100 font-semibold">{packages.packageShareOfTreatments.toFixed(0)}%</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Package Sales Collected</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(packages.packageSales)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Breakage Revenue</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(packages.breakageRevenue)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Peak Deferred Revenue</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(packages.peakDeferredRevenue)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Deferred Revenue at End</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(packages.endingDeferredRevenue)}</div>
+            </div>
           </div>
-        );
-      })}
-    </div>
+          <p className="text-xs text-dark-400 mt-3">
+            Packages are paid for up front and earned as sessions are redeemed; unredeemed sessions are a liability until then.
+          </p>
+        </div>
+      )}
+
+      {membership && (
+        <div className="card mb-8">
+          <h3 className="text-lg font-semibold text-dark-100 mb-4">Membership</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-dark-400">Members at End</div>
+              <div className="text-dark-100 font-semibold">{membership.endingMembers.toFixed(0)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Peak Members</div>
+              <div className="text-dark-100 font-semibold">{membership.peakMembers.toFixed(0)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">MRR at End</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(membership.endingMRR)}</div>
+            </div>
+            <div>
+              <div className="text-dark-400">Total Membership Revenue</div>
+              <div className="text-dark-100 font-semibold">{formatCurrency(membership.membershipRevenue)}</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="card mb-8">
+        <h3 className="text-lg font-semibold text-dark-100 mb-4">Patient Acquisition</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <div className="text-dark-400">Marketing Spend / Month</div>
+            <div className="text-dark-100 font-semibold">{formatCurrency(marketing.monthlySpend)}</div>
+          </div>
+          <div>
+            <div className="text-dark-400">New Patients / Month</div>
+            <div className="text-dark-100 font-semibold">{formatNumber(marketing.newPatientsPerMonth)}</div>
+          </div>
+          <div>
+            <div className="text-dark-400">Acquisition Cost (CAC)</div>
+            <div className="text-dark-100 font-semibold">{formatCurrency(marketing.costPerNewPatient)}</div>
+          </div>
+          <div>
+            <div className="text-dark-400">Gross Profit / New Patient</div>
+            <div className={`font-semibold ${marketing.grossProfitPerNewPatient >= marketing.costPerNewPatient ? 'text-green-400' : 'text-red-400'}`}>
+              {formatCurrency(marketing.grossProfitPerNewPatient)}
+            </div>
+          </div>
+          {marketing.leadsPerMonth > 0 && (
+            <div>
+              <div className="text-dark-400">Leads / Month</div>
+              <div className="text-dark-100 font-semibold">{formatNumber(marketing.leadsPerMonth, 0)}</div>
+            </div>
+          )}
+          {marketing.capacityLimitedMonths > 0 && (
+            <div>
+              <div className="text-dark-400">Months at Capacity</div>
+              <div className="text-yellow-400 font-semibold">{marketing.capacityLimitedMonths}</div>
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-dark-400 mt-3">
+          Gross profit per new patient includes their package sessions and membership dues over the months in service.
+        </p>
+      </div>
+    </>
   );
 };
 
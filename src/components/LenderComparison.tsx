@@ -0,0 +1,107 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { CalculatorInputs } from '../utils/calculations';
+import { fetchLenderCatalog, rankLenderPrograms, type LenderCatalog, type LenderQuote } from '../utils/lenderApi';
+
+interface LenderComparisonProps {
+  inputs: CalculatorInputs;
+}
+
+type RankBy = 'payment' | 'totalCost' | 'npv';
+
+const RANKINGS: Record<RankBy, { label: string; compare: (a: LenderQuote, b: LenderQuote) => number }> = {
+  payment: { label: 'Monthly Payment', compare: (a, b) => a.monthlyPayment - b.monthlyPayment },
+  totalCost: { label: 'Total Cost', compare: (a, b) => a.totalCost - b.totalCost },
+  npv: { label: 'NPV', compare: (a, b) => b.npv - a.npv }
+};
+
+const LenderComparison: React.FC<LenderComparisonProps> = ({ inputs }) => {
+  const [catalog, setCatalog] = useState<LenderCatalog | null>(null);
+  const [rankBy, setRankBy] = useState<RankBy>('payment');
+
+  useEffect(() => {
+    fetchLenderCatalog().then(setCatalog);
+  }, []);
+
+  const quotes = useMemo(
+    () => (catalog ? rankLenderPrograms(inputs, catalog) : []),
+    [catalog, inputs]
+  );
+
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  if (!catalog) return null;
+
+  const tierName = catalog.creditTiers.find(tier => tier.id === inputs.financing.creditTier)?.name
+    ?? inputs.financing.creditTier;
+  const rankedQuotes = [...quotes].sort(RANKINGS[rankBy].compare);
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-dark-100">Lender Programs</h3>
+          <p className="text-sm text-dark-400">Eligible programs for {tierName}</p>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(RANKINGS) as RankBy[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setRankBy(key)}
+              className={`px-2 py-1 text-xs rounded ${
+                rankBy === key ? 'bg-blue-600 text-white' : 'bg-dark-700 text-dark-300 hover:bg-dark-600'
+              }`}
+            >
+              {RANKINGS[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rankedQuotes.length === 0 ? (
+        <p className="text-sm text-dark-400">No programs are offered to this credit tier.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-dark-600">
+                <th className="text-left py-2 px-3 text-dark-300">#</th>
+                <th className="text-left py-2 px-3 text-dark-300">Lender / Program</th>
+                <th className="text-right py-2 px-3 text-dark-300">APR</th>
+                <th className="text-right py-2 px-3 text-dark-300">Term</th>
+                <th className="text-right py-2 px-3 text-dark-300">Monthly Payment</th>
+                <th className="text-right py-2 px-3 text-dark-300">Total Cost</th>
+                <th className="text-right py-2 px-3 text-dark-300">NPV</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rankedQuotes.map((quote, index) => (
+                <tr
+                  key={quote.program.id}
+                  className={`border-b border-dark-700 hover:bg-dark-700 ${
+                    quote.program.id === inputs.financing.lenderProgramId ? 'bg-blue-900/20' : ''
+                  }`}
+                >
+                  <td className="py-2 px-3 text-dark-200">{index + 1}</td>
+                  <td className="py-2 px-3">
+                    <div className="text-dark-100">{quote.program.name}</div>
+                    <div className="text-xs text-dark-400">{quote.lender.name}</div>
+                  </td>
+                  <td className="py-2 px-3 text-right text-dark-200">{quote.apr.toFixed(2)}%</td>
+                  <td className="py-2 px-3 text-right text-dark-200">{quote.program.termMonths} mo</td>
+                  <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(quote.monthlyPayment)}</td>
+                  <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(quote.totalCost)}</td>
+                  <td className={`py-2 px-3 text-right ${quote.npv >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatCurrency(quote.npv)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LenderComparison;
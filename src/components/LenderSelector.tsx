@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import type { CalculatorInputs, FinancingInputs } from '../utils/calculations';
+import {
+  applyLenderProgram,
+  fetchLenderCatalog,
+  findLenderProgram,
+  isProgramEligible,
+  type LenderCatalog
+} from '../utils/lenderApi';
+
+interface LenderSelectorProps {
+  inputs: CalculatorInputs;
+  onInputChange: (section: keyof CalculatorInputs, field: string, value: unknown) => void;
+}
+
+const LenderSelector: React.FC<LenderSelectorProps> = ({ inputs, onInputChange }) => {
+  const [catalog, setCatalog] = useState<LenderCatalog>({ creditTiers: [], lenders: [] });
+  const [lenderId, setLenderId] = useState('');
+
+  useEffect(() => {
+    fetchLenderCatalog().then(setCatalog);
+  }, []);
+
+  const { creditTier, lenderProgramId } = inputs.financing;
+  const selected = findLenderProgram(catalog, lenderProgramId);
+  const activeLenderId = selected ? selected.lender.id : lenderId;
+  const activeLender = catalog.lenders.find(lender => lender.id === activeLenderId);
+  const eligiblePrograms = activeLender
+    ? activeLender.programs.filter(program => isProgramEligible(program, creditTier))
+    : [];
+
+  const handleLenderChange = (id: string) => {
+    setLenderId(id);
+    onInputChange('financing', 'lenderProgramId', '');
+  };
+
+  const handleTierChange = (tier: string) => {
+    onInputChange('financing', 'creditTier', tier);
+    if (selected) {
+      if (isProgramEligible(selected.program, tier)) {
+        onInputChange('financing', 'apr', selected.program.aprByTier[tier]);
+      } else {
+        onInputChange('financing', 'lenderProgramId', '');
+      }
+    }
+  };
+
+  const handleProgramChange = (programId: string) => {
+    const match = findLenderProgram(catalog, programId);
+    if (!match) {
+      onInputChange('financing', 'lenderProgramId', '');
+      return;
+    }
+
+    // Fill in every financing field the program sets
+    const financing = applyLenderProgram(inputs, match.program, creditTier);
+    (Object.keys(financing) as Array<keyof FinancingInputs>).forEach(field => {
+      if (financing[field] !== inputs.financing[field]) {
+        onInputChange('financing', field, financing[field]);
+      }
+    });
+  };
+
+  if (catalog.lenders.length === 0) return null;
+
+  return (
+    <div className="mb-4 pb-4 border-b border-dark-700">
+      <div className="mb-3">
+        <label className="block text-sm font-medium text-dark-300 mb-1">
+          Lender
+        </label>
+        <select
+          value={activeLenderId}
+          onChange={(e) => handleLenderChange(e.target.value)}
+          className="input-field"
+        >
+          <option value="">Manual entry</option>
+          {catalog.lenders.map(lender => (
+            <option key={lender.id} value={lender.id}>{lender.name}</option>
+          ))}
+        </select>
+      </div>
+      {activeLender && (
+        <>
+          <div className="mb-3">
+            <label className="block text-sm font-medium text-dark-300 mb-1">
+              Credit Tier
+            </label>
+            <select
+              value={creditTier}
+              onChange={(e) => handleTierChange(e.target.value)}
+              className="input-field"
+            >
+              {catalog.creditTiers.map(tier => (
+                <option key={tier.id} value={tier.id}>{tier.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="mb-3">
+            <label className="block text-sm font-medium text-dark-300 mb-1">
+              Program
+            </label>
+            <select
+              value={selected ? selected.program.id : ''}
+              onChange={(e) => handleProgramChange(e.target.value)}
+              className="input-field"
+            >
+              <option value="">Select a program...</option>
+              {eligiblePrograms.map(program => (
+                <option key={program.id} value={program.id}>
+                  {program.name} ({program.aprByTier[creditTier]}% APR)
+                </option>
+              ))}
+            </select>
+            {eligiblePrograms.length === 0 && (
+              <p className="text-xs text-dark-400 mt-1">No programs offered to this credit tier</p>
+            )}
+            {selected && selected.program.minDownPaymentPercent > 0 && (
+              <p className="text-xs text-dark-400 mt-1">
+                Minimum down payment {selected.program.minDownPaymentPercent}%
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LenderSelector;
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import type { CalculatorInputs } from '../utils/calculations';
+import { compareMarketingSpend } from '../utils/marketingScenarios';
+
+interface MarketingSpendTableProps {
+  inputs: CalculatorInputs;
+  months: number;
+}
+
+const MarketingSpendTable: React.FC<MarketingSpendTableProps> = ({ inputs, months }) => {
+  const scenarios = useMemo(() => compareMarketingSpend(inputs, months), [inputs, months]);
+
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  const formatChange = (value: number) => (value > 0 ? `+${formatCurrency(value)}` : value < 0 ? `-${formatCurrency(-value)}` : 'Current');
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-dark-100 mb-4">What If Marketing Spend Changes?</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-dark-600">
+              <th className="text-left py-2 px-3 text-dark-300">Change</th>
+              <th className="text-right py-2 px-3 text-dark-300">Spend/Mo</th>
+              <th className="text-right py-2 px-3 text-dark-300">New Patients/Mo</th>
+              <th className="text-right py-2 px-3 text-dark-300">Treatments/Mo</th>
+              <th className="text-right py-2 px-3 text-dark-300">EBITDA/Mo</th>
+              <th className="text-right py-2 px-3 text-dark-300">NPV Change</th>
+              <th className="text-right py-2 px-3 text-dark-300">Spend Paid Back</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scenarios.map(scenario => (
+              <tr
+                key={scenario.change}
+                className={`border-b border-dark-700 hover:bg-dark-700 ${scenario.change === 0 ? 'font-semibold' : ''}`}
+              >
+                <td className="py-2 px-3 text-dark-200">{formatChange(scenario.change)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(scenario.monthlySpend)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{scenario.newPatientsPerMonth.toFixed(1)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{Math.round(scenario.treatmentsPerMonth)}</td>
+                <td className="py-2 px-3 text-right text-blue-400">{formatCurrency(scenario.monthlyEBITDA)}</td>
+                <td className={`py-2 px-3 text-right ${scenario.npvChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {scenario.change === 0 ? '—' : formatCurrency(scenario.npvChange)}
+                </td>
+                <td className="py-2 px-3 text-right text-dark-200">
+                  {scenario.change <= 0 ? '—' : scenario.paybackMonths !== null ? `Month ${scenario.paybackMonths}` : 'Not recovered'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-dark-400 mt-3">
+        Extra spend is paid back once the added EBITDA covers it. Once the schedule is full, more leads cannot be treated and extra spend is not recovered.
+      </p>
+    </div>
+  );
+};
+
+export default MarketingSpendTable;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { FinancingInputs, KPIs } from '../utils/calculations';
+import { CAPACITY_CONSTRAINT_LABELS } from '../utils/capacity';
+
+interface RealityCheckBannerProps {
+  kpis: KPIs;
+  purchaseMethod: FinancingInputs['purchaseMethod'];
+}
+
+const RealityCheckBanner: React.FC<RealityCheckBannerProps> = ({ kpis, purchaseMethod }) => {
+  const { capacity } = kpis;
+  const limit = `${capacity.maxTreatmentsPerDay} treatments/day (limited by ${CAPACITY_CONSTRAINT_LABELS[capacity.limitingFactor]})`;
+
+  const warnings: string[] = [];
+  if (capacity.breakevenExceedsCapacity) {
+    warnings.push(`Breakeven needs ${capacity.breakevenTreatmentsPerDay.toFixed(1)} treatments/day, more than the clinic can fit: at most ${limit}, less no-shows.`);
+  }
+  if (capacity.planExceedsCapacity) {
+    warnings.push(`The plan books ${capacity.plannedTreatmentsPerDay.toFixed(1)} treatments/day at its seasonal peak, but only ${limit} fit. Volumes have been capped.`);
+  }
+
+  if (kpis.service.uncoveredPaymentMonths > 0) {
+    warnings.push(`Financing runs to month ${kpis.service.financingEndMonth}, but warranty coverage ends in month ${kpis.service.coverageEndMonth} - ${kpis.service.uncoveredPaymentMonths} months of payments with repairs on top.`);
+  }
+  if (purchaseMethod === 'cash' && kpis.paybackMonths <= 1) {
+    warnings.push('A cash purchase pays back in month 1 - check that package sales and new patients per month are realistic.');
+  }
+  if (kpis.staffing.unstaffedTreatments.length > 0) {
+    warnings.push(`No provider is set up to perform ${kpis.staffing.unstaffedTreatments.join(', ')} - those treatments carry no provider cost.`);
+  }
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-yellow-500/40 bg-yellow-900/20">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-5 w-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+        <div>
+          <div className="font-semibold text-yellow-300 mb-1">Reality Check</div>
+          <ul className="text-sm text-yellow-200 space-y-1">
+            {warnings.map(warning => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RealityCheckBanner;
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { ReplacementPart } from '../utils/calculations';
+import type { PartsSummary } from '../utils/replacementParts';
+
+interface ReplacementPartsTableProps {
+  parts: ReplacementPart[];
+  summary: PartsSummary;
+}
+
+const ReplacementPartsTable: React.FC<ReplacementPartsTableProps> = ({ parts, summary }) => {
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  const formatLife = (part: ReplacementPart) => [
+    part.lifeTreatments > 0 ? `${part.lifeTreatments.toLocaleString('en-US')} treatments` : '',
+    part.lifeMonths > 0 ? `${part.lifeMonths} months` : ''
+  ].filter(Boolean).join(' or ') || '—';
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-dark-100 mb-4">Handpieces & Replacement Parts</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-dark-600">
+              <th className="text-left py-2 px-3 text-dark-300">Part</th>
+              <th className="text-right py-2 px-3 text-dark-300">Cost</th>
+              <th className="text-right py-2 px-3 text-dark-300">Lasts</th>
+              <th className="text-right py-2 px-3 text-dark-300">Lead Time</th>
+              <th className="text-right py-2 px-3 text-dark-300">Replacements</th>
+              <th className="text-right py-2 px-3 text-dark-300">First Due</th>
+              <th className="text-right py-2 px-3 text-dark-300">Total Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.parts.map((part, index) => (
+              <tr key={index} className="border-b border-dark-700 hover:bg-dark-700">
+                <td className="py-2 px-3 text-dark-200">{part.name}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(parts[index].cost)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatLife(parts[index])}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{parts[index].leadTimeMonths} mo</td>
+                <td className="py-2 px-3 text-right text-dark-200">{part.replacements}</td>
+                <td className="py-2 px-3 text-right text-dark-200">
+                  {part.firstReplacementMonth > 0 ? `Month ${part.firstReplacementMonth}` : '—'}
+                </td>
+                <td className="py-2 px-3 text-right text-red-400">{formatCurrency(part.totalCost)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-dark-600">
+              <td className="py-2 px-3 text-dark-100 font-semibold" colSpan={6}>
+                All Parts ({formatCurrency(summary.costPerTreatment)} per treatment)
+              </td>
+              <td className="py-2 px-3 text-right text-dark-100 font-semibold">{formatCurrency(summary.totalCost)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-dark-400 mt-3">
+        {summary.largestBill.amount > 0
+          ? `Largest parts bill: ${formatCurrency(summary.largestBill.amount)} paid in month ${summary.largestBill.month}. `
+          : 'No replacements fall due while the device is in service. '}
+        Parts are paid for when ordered, lead time ahead of the month they go in.
+      </p>
+    </div>
+  );
+};
+
+export default ReplacementPartsTable;
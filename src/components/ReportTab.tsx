@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { FileText, Download, Mail, Settings, Eye, ClipboardList, BarChart3, Target, Microscope, DollarSign, TrendingUp, FileText as FileTextIcon, Globe, AlertTriangle, ChevronDown, X, Check, Minimize2, Maximize2 } from 'lucide-react';
+import { FileText, Download, Mail, Settings, Eye, ClipboardList, BarChart3, Target, Microscope, DollarSign, TrendingUp, FileText as FileTextIcon, Globe, AlertTriangle, ChevronDown, X, Check, Minimize2, Maximize2, CalendarDays, TrendingDown } from 'lucide-react';
 import type { CalculatorInputs, MonthlyResults, KPIs } from '../utils/calculations';
 import { generateTemplateReport, emailTemplateReport, reportSections } from '../utils/reportGenerator';
 import mrpLogo from '../assets/images/mrp-logo.png';
@@ -52,7 +52,7 @@ const defaultTemplates: ReportTemplate[] = [
     id: 'detailed-analysis',
     name: 'Detailed Analysis',
     description: 'Comprehensive report with full financial breakdown',
-    sections: ['header', 'executive-summary', 'device-info', 'financing', 'monthly-breakdown', 'assumptions', 'disclaimer']
+    sections: ['header', 'executive-summary', 'device-info', 'financing', 'payment-schedule', 'depreciation-schedule', 'monthly-breakdown', 'assumptions', 'disclaimer']
   },
   {
     id: 'investor-pitch',
@@ -164,6 +164,8 @@ const ReportTab: React.FC<ReportTabProps> = ({ inputs, results, kpis, selectedDe
     { id: 'key-metrics', name: 'Key Performance Metrics', icon: <Target className="h-4 w-4" /> },
     { id: 'device-info', name: 'Device Information', icon: <Microscope className="h-4 w-4" /> },
     { id: 'financing', name: 'Financing Details', icon: <DollarSign className="h-4 w-4" /> },
+    { id: 'payment-schedule', name: 'Payment Schedule', icon: <CalendarDays className="h-4 w-4" /> },
+    { id: 'depreciation-schedule', name: 'Depreciation Schedule', icon: <TrendingDown className="h-4 w-4" /> },
     { id: 'monthly-breakdown', name: 'Monthly P&L Breakdown', icon: <TrendingUp className="h-4 w-4" /> },
     { id: 'charts', name: 'Financial Charts', icon: <BarChart3 className="h-4 w-4" /> },
     { id: 'assumptions', name: 'Assumptions & Methodology', icon: <FileTextIcon className="h-4 w-4" /> },
@@ -231,6 +233,8 @@ const ReportTab: React.FC<ReportTabProps> = ({ inputs, results, kpis, selectedDe
       'key-metrics': <Target className="h-4 w-4" />,
       'device-info': <Microscope className="h-4 w-4" />,
       'financing': <DollarSign className="h-4 w-4" />,
+      'payment-schedule': <CalendarDays className="h-4 w-4" />,
+      'depreciation-schedule': <TrendingDown className="h-4 w-4" />,
       'monthly-breakdown': <TrendingUp className="h-4 w-4" />,
       'charts': <BarChart3 className="h-4 w-4" />,
       'assumptions': <FileTextIcon className="h-4 w-4" />,
@@ -642,6 +646,23 @@ const ReportTab: React.FC<ReportTabProps> = ({ inputs, results, kpis, selectedDe
                               </div>
                             )}
                             
+                            {sectionId === 'payment-schedule' && (
+                              <div className="space-y-1 text-dark-300">
+                                <div><strong>Amount Financed:</strong> $109,893</div>
+                                <div><strong>Total Interest:</strong> $22,184</div>
+                                <div><strong>Payoff Date:</strong> Dec 2032</div>
+                                <div className="text-xs text-dark-400">Every payment with interest, principal, balloon and balance</div>
+                              </div>
+                            )}
+                            
+                            {sectionId === 'depreciation-schedule' && (
+                              <div className="space-y-1 text-dark-300">
+                                <div><strong>Method:</strong> MACRS 5-year, half-year</div>
+                                <div><strong>Year 1 Tax Depreciation:</strong> $34,033</div>
+                                <div className="text-xs text-dark-400">Book and tax depreciation by tax year</div>
+                              </div>
+                            )}
+                            
                             {sectionId === 'monthly-breakdown' && (
                               <div className="space-y-1 text-dark-300">
                                 <div className="grid grid-cols-2 gap-2 text-xs">
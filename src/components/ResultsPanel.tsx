@@ -1,38 +1,64 @@
 import React from 'react';
-import type { MonthlyResults, KPIs } from '../utils/calculations';
+import type { CalculatorInputs, MonthlyResults, KPIs } from '../utils/calculations';
+import type { AmortizationSchedule } from '../utils/amortization';
 import KPICards from './KPICards';
 import Charts from './Charts';
+import AmortizationTable from './AmortizationTable';
+import LenderComparison from './LenderComparison';
+import AcquisitionComparison from './AcquisitionComparison';
+import TaxSummaryTable from './TaxSummaryTable';
+import TreatmentProfitabilityTable from './TreatmentProfitabilityTable';
+import MarketingSpendTable from './MarketingSpendTable';
+import RealityCheckBanner from './RealityCheckBanner';
+import ReplacementPartsTable from './ReplacementPartsTable';
+import StaffingTable from './StaffingTable';
 
 interface ResultsPanelProps {
+  inputs: CalculatorInputs;
   results: MonthlyResults[];
   kpis: KPIs | null;
+  schedule: AmortizationSchedule | null;
 }
 
-const ResultsPanel: React.FC<ResultsPanelProps> = ({ results, kpis }) => {
+const ResultsPanel: React.FC<ResultsPanelProps> = ({ inputs, results, kpis, schedule }) => {
   return (
     <div className="h-full overflow-y-auto scrollbar-thin">
       <div className="p-6">
         <h2 className="text-2xl font-bold text-dark-100 mb-6">Financial Analysis</h2>
         
+        {/* Capacity and Guardrail Warnings */}
+        {kpis && <RealityCheckBanner kpis={kpis} purchaseMethod={inputs.financing.purchaseMethod} />}
+        
         {/* KPI Cards */}
-        {kpis && <KPICards kpis={kpis} />}
+        {kpis && <KPICards kpis={kpis} basis={inputs.accounting.basis} />}
         
         {/* Charts */}
         <div id="charts-container" className="mt-8">
-          <Charts results={results} />
+          <Charts results={results} basis={inputs.accounting.basis} />
+        </div>
+
+        {/* Acquisition Method Comparison */}
+        <div className="mt-8">
+          <AcquisitionComparison inputs={inputs} />
         </div>
         
         {/* Summary Table */}
         <div className="mt-8">
           <div className="card">
-            <h3 className="text-lg font-semibold text-dark-100 mb-4">Monthly Summary (First 12 Months)</h3>
+            <h3 className="text-lg font-semibold text-dark-100 mb-4">
+              Monthly Summary (First 12 Months)
+              <span className="ml-2 text-sm font-normal text-dark-400">
+                {inputs.accounting.basis === 'cash' ? 'Cash basis' : 'Accrual basis'}
+              </span>
+            </h3>
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead>
                   <tr className="border-b border-dark-600">
                     <th className="text-left py-2 px-3 text-dark-300">Month</th>
                     <th className="text-right py-2 px-3 text-dark-300">Treatments</th>
-                    <th className="text-right py-2 px-3 text-dark-300">Revenue</th>
+                    <th className="text-right py-2 px-3 text-dark-300">Utilization</th>
+                    <th className="text-right py-2 px-3 text-dark-300">{inputs.accounting.basis === 'cash' ? 'Receipts' : 'Revenue'}</th>
                     <th className="text-right py-2 px-3 text-dark-300">EBITDA</th>
                     <th className="text-right py-2 px-3 text-dark-300">Cash Flow</th>
                     <th className="text-right py-2 px-3 text-dark-300">Cumulative Cash</th>
@@ -45,6 +71,9 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ results, kpis }) => {
                       <td className="py-2 px-3 text-right text-dark-200">
                         {Math.round(result.treatments)}
                       </td>
+                      <td className={`py-2 px-3 text-right ${result.utilizationPercent >= 99.5 - inputs.utilization.noShowRate ? 'text-yellow-400' : 'text-dark-200'}`}>
+                        {result.utilizationPercent.toFixed(0)}%
+                      </td>
                       <td className="py-2 px-3 text-right text-green-400">
                         ${result.revenue.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
                       </td>
@@ -64,6 +93,53 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ results, kpis }) => {
             </div>
           </div>
         </div>
+        
+        {/* Treatment Menu */}
+        {kpis && kpis.treatmentProfitability.length > 0 && (
+          <div className="mt-8">
+            <TreatmentProfitabilityTable treatments={kpis.treatmentProfitability} />
+          </div>
+        )}
+
+        {/* Provider Compensation */}
+        {kpis && kpis.staffing.providers.length > 0 && (
+          <div className="mt-8">
+            <StaffingTable staffing={kpis.staffing} />
+          </div>
+        )}
+
+        {/* Replacement Parts */}
+        {kpis && inputs.lifecycle.parts.length > 0 && (
+          <div className="mt-8">
+            <ReplacementPartsTable parts={inputs.lifecycle.parts} summary={kpis.parts} />
+          </div>
+        )}
+
+        {/* Marketing Spend What-If */}
+        {inputs.marketing.volumeDriver === 'funnel' && results.length > 0 && (
+          <div className="mt-8">
+            <MarketingSpendTable inputs={inputs} months={results.length} />
+          </div>
+        )}
+
+        {/* Tax Years */}
+        {kpis && kpis.taxYears.length > 0 && (
+          <div className="mt-8">
+            <TaxSummaryTable taxYears={kpis.taxYears} />
+          </div>
+        )}
+        
+        {/* Payment Schedule */}
+        {schedule && schedule.rows.length > 0 && (
+          <div className="mt-8">
+            <AmortizationTable schedule={schedule} />
+          </div>
+        )}
+
+        {/* Lender Programs */}
+        <div className="mt-8">
+          <LenderComparison inputs={inputs} />
+        </div>
       </div>
     </div>
   );
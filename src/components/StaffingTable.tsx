@@ -0,0 +1,67 @@
+import React from 'react';
+import type { StaffingSummary } from '../utils/staffing';
+import { PROVIDER_ROLES } from '../utils/staffing';
+
+interface StaffingTableProps {
+  staffing: StaffingSummary;
+}
+
+const StaffingTable: React.FC<StaffingTableProps> = ({ staffing }) => {
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  const roleLabel = (role: string) => PROVIDER_ROLES.find(option => option.role === role)?.label ?? role;
+  const totalTreatments = staffing.providers.reduce((sum, p) => sum + p.treatmentsPerMonth, 0);
+  const totalCompensation = staffing.providers.reduce((sum, p) => sum + p.compensationPerMonth, 0);
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-dark-100 mb-4">Provider Compensation</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-dark-600">
+              <th className="text-left py-2 px-3 text-dark-300">Provider</th>
+              <th className="text-left py-2 px-3 text-dark-300">Role</th>
+              <th className="text-right py-2 px-3 text-dark-300">Treatments/Mo</th>
+              <th className="text-right py-2 px-3 text-dark-300">Hours/Mo</th>
+              <th className="text-right py-2 px-3 text-dark-300">Pay/Mo</th>
+              <th className="text-right py-2 px-3 text-dark-300">Pay/Treatment</th>
+              <th className="text-right py-2 px-3 text-dark-300">% of Revenue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {staffing.providers.map((provider, index) => (
+              <tr key={index} className="border-b border-dark-700 hover:bg-dark-700">
+                <td className="py-2 px-3 text-dark-200">{provider.name}</td>
+                <td className="py-2 px-3 text-dark-200">{roleLabel(provider.role)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{Math.round(provider.treatmentsPerMonth)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{provider.hoursPerMonth.toFixed(0)}</td>
+                <td className="py-2 px-3 text-right text-red-400">{formatCurrency(provider.compensationPerMonth)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">
+                  {provider.treatmentsPerMonth > 0 ? formatCurrency(provider.compensationPerTreatment) : '—'}
+                </td>
+                <td className="py-2 px-3 text-right text-dark-200">
+                  {provider.treatmentsPerMonth > 0 ? `${provider.compensationPercentOfRevenue.toFixed(0)}%` : '—'}
+                </td>
+              </tr>
+            ))}
+            <tr className="border-t border-dark-600">
+              <td className="py-2 px-3 text-dark-100 font-semibold" colSpan={2}>All Providers</td>
+              <td className="py-2 px-3 text-right text-dark-100 font-semibold">{Math.round(totalTreatments)}</td>
+              <td />
+              <td className="py-2 px-3 text-right text-dark-100 font-semibold">{formatCurrency(totalCompensation)}</td>
+              <td />
+              <td className="py-2 px-3 text-right text-dark-100 font-semibold">{staffing.compensationPercentOfRevenue.toFixed(0)}%</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-dark-400 mt-3">
+        Average month while the device is in service. Pay as a share of the treatment revenue each provider brings in; membership dues are not included.
+      </p>
+    </div>
+  );
+};
+
+export default StaffingTable;
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { TaxYearSummary } from '../utils/taxes';
+
+interface TaxSummaryTableProps {
+  taxYears: TaxYearSummary[];
+}
+
+const TaxSummaryTable: React.FC<TaxSummaryTableProps> = ({ taxYears }) => {
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-dark-100 mb-4">Income Tax by Tax Year</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-dark-600">
+              <th className="text-left py-2 px-3 text-dark-300">Tax Year</th>
+              <th className="text-right py-2 px-3 text-dark-300">Federal Taxable Income</th>
+              <th className="text-right py-2 px-3 text-dark-300">Loss Used</th>
+              <th className="text-right py-2 px-3 text-dark-300">Loss Carried Forward</th>
+              <th className="text-right py-2 px-3 text-dark-300">Federal</th>
+              <th className="text-right py-2 px-3 text-dark-300">State</th>
+              <th className="text-right py-2 px-3 text-dark-300">Local</th>
+              <th className="text-right py-2 px-3 text-dark-300">Total Taxes</th>
+              <th className="text-right py-2 px-3 text-dark-300">Interest Tax Shield</th>
+            </tr>
+          </thead>
+          <tbody>
+            {taxYears.map(year => (
+              <tr key={year.year} className="border-b border-dark-700 hover:bg-dark-700">
+                <td className="py-2 px-3 text-dark-200">
+                  {year.year}
+                  {year.months < 12 && <span className="text-xs text-dark-400"> ({year.months} mo)</span>}
+                </td>
+                <td className={`py-2 px-3 text-right ${year.taxableIncome >= 0 ? 'text-dark-200' : 'text-red-400'}`}>
+                  {formatCurrency(year.taxableIncome)}
+                </td>
+                <td className="py-2 px-3 text-right text-dark-200">{year.lossUsed > 0 ? formatCurrency(year.lossUsed) : '—'}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{year.lossCarriedForward > 0 ? formatCurrency(year.lossCarriedForward) : '—'}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(year.federalTaxes)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(year.stateTaxes)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(year.localTaxes)}</td>
+                <td className="py-2 px-3 text-right text-red-400">{formatCurrency(year.taxes)}</td>
+                <td className="py-2 px-3 text-right text-green-400">{formatCurrency(year.interestTaxShield)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TaxSummaryTable;
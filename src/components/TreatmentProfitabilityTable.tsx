@@ -0,0 +1,67 @@
+import React from 'react';
+import type { TreatmentProfitability } from '../utils/calculations';
+
+interface TreatmentProfitabilityTableProps {
+  treatments: TreatmentProfitability[];
+}
+
+const TreatmentProfitabilityTable: React.FC<TreatmentProfitabilityTableProps> = ({ treatments }) => {
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  const totalTreatments = treatments.reduce((sum, t) => sum + t.monthlyTreatments, 0);
+  const totalContribution = treatments.reduce((sum, t) => sum + t.monthlyContribution, 0);
+  const bestPerHour = Math.max(...treatments.map(t => t.contributionPerHour));
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-dark-100 mb-4">Treatment Menu Profitability</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-dark-600">
+              <th className="text-left py-2 px-3 text-dark-300">Treatment</th>
+              <th className="text-right py-2 px-3 text-dark-300">Mix</th>
+              <th className="text-right py-2 px-3 text-dark-300">Net Price</th>
+              <th className="text-right py-2 px-3 text-dark-300">Variable Cost</th>
+              <th className="text-right py-2 px-3 text-dark-300">Contribution</th>
+              <th className="text-right py-2 px-3 text-dark-300">Per Device Hour</th>
+              <th className="text-right py-2 px-3 text-dark-300">Treatments/Mo</th>
+              <th className="text-right py-2 px-3 text-dark-300">Contribution/Mo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {treatments.map(treatment => (
+              <tr key={treatment.name} className="border-b border-dark-700 hover:bg-dark-700">
+                <td className="py-2 px-3 text-dark-200">{treatment.name}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{treatment.mixShare.toFixed(0)}%</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(treatment.netPrice)}</td>
+                <td className="py-2 px-3 text-right text-red-400">{formatCurrency(treatment.variableCost)}</td>
+                <td className={`py-2 px-3 text-right ${treatment.contribution >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatCurrency(treatment.contribution)}
+                </td>
+                <td className={`py-2 px-3 text-right ${treatment.contributionPerHour === bestPerHour ? 'text-green-400 font-semibold' : 'text-dark-200'}`}>
+                  {formatCurrency(treatment.contributionPerHour)}
+                </td>
+                <td className="py-2 px-3 text-right text-dark-200">{Math.round(treatment.monthlyTreatments)}</td>
+                <td className="py-2 px-3 text-right text-dark-200">{formatCurrency(treatment.monthlyContribution)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-dark-600">
+              <td className="py-2 px-3 text-dark-100 font-semibold">Menu Total</td>
+              <td className="py-2 px-3 text-right text-dark-200">100%</td>
+              <td colSpan={4} />
+              <td className="py-2 px-3 text-right text-dark-100 font-semibold">{Math.round(totalTreatments)}</td>
+              <td className="py-2 px-3 text-right text-dark-100 font-semibold">{formatCurrency(totalContribution)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-dark-400 mt-3">
+        At full volume, sold as single sessions. Contribution per device hour shows which treatments make the best use of the schedule.
+      </p>
+    </div>
+  );
+};
+
+export default TreatmentProfitabilityTable;
@@ -0,0 +1,80 @@
+// Cash vs accrual views of the monthly results - when income is earned and costs are incurred
+// vs when the money actually arrives and leaves
+
+import type { AccountingInputs, KPIs, MonthlyResults } from './calculations';
+
+export type AccountingBasis = AccountingInputs['basis'];
+
+export const ACCOUNTING_BASES: Array<{ basis: AccountingBasis; label: string }> = [
+  { basis: 'accrual', label: 'Accrual' },
+  { basis: 'cash', label: 'Cash' }
+];
+
+// Whether an annually billed item is paid this month - billing starts when the device goes into service
+export function isAnnualBillingMonth(month: number): boolean {
+  return (month - 1) % 12 === 0;
+}
+
+// Months of usage paid for by a bill raised this month - a whole year up front, or just this month.
+// An annual bill is prorated when the device is sold before the year is out.
+export function getPrepaidMonths(billing: 'monthly' | 'annual', month: number, lastMonth: number): number {
+  if (month > lastMonth) return 0;
+  if (billing === 'monthly') return 1;
+  return isAnnualBillingMonth(month) ? Math.min(12, lastMonth - month + 1) : 0;
+}
+
+// Months covered by the inventory order placed this month, stopping once the device is gone
+export function getInventoryOrderMonths(orderMonths: number, month: number, lastMonth: number): number[] {
+  const cycle = Math.max(1, Math.round(orderMonths));
+  if ((month - 1) % cycle !== 0) return [];
+  const months: number[] = [];
+  for (let covered = month; covered < month + cycle && covered <= lastMonth; covered++) {
+    months.push(covered);
+  }
+  return months;
+}
+
+// Results on the chosen basis. Accrual is the model's native view; cash basis swaps in receipts and
+// payments and drops depreciation. Purchase and resale of the device stay in cash flow, not income.
+export function applyAccountingBasis(results: MonthlyResults[], basis: AccountingBasis): MonthlyResults[] {
+  if (basis === 'accrual') return results;
+
+  return results.map(r => {
+    // Reserves are the same share of receipts as of revenue
+    const reserveShare = r.revenue > 0 ? r.cashRevenue / r.revenue : 0;
+    const grossProfit = r.cashRevenue - r.cashReserves - r.cashVariableCosts;
+    const ebitda = grossProfit - r.cashFixedOpex - r.cashLeaseExpense;
+    const ebt = ebitda - r.interest;
+    return {
+      ...r,
+      revenue: r.cashRevenue,
+      downtimeReserve: r.downtimeReserve * reserveShare,
+      refundReserve: r.refundReserve * reserveShare,
+      chargebackReserve: r.chargebackReserve * reserveShare,
+      badDebtReserve: r.badDebtReserve * reserveShare,
+      variableCosts: r.cashVariableCosts,
+      grossProfit,
+      fixedOpex: r.cashFixedOpex,
+      leaseExpense: r.cashLeaseExpense,
+      ebitda,
+      depreciation: 0,
+      ebit: ebitda,
+      ebt,
+      gainOnSale: 0,
+      netIncome: ebt - r.taxes
+    };
+  });
+}
+
+// Average monthly revenue and EBITDA on the chosen basis, over the months the device is in service.
+// Payback, NPV and IRR already run on cash flows, and taxes and coverage stay on accrual income.
+export function applyAccountingBasisToKPIs(kpis: KPIs, basisResults: MonthlyResults[], basis: AccountingBasis): KPIs {
+  if (basis === 'accrual' || basisResults.length === 0) return kpis;
+
+  const operatingResults = kpis.disposal ? basisResults.slice(0, kpis.disposal.month) : basisResults;
+  return {
+    ...kpis,
+    monthlyRevenue: operatingResults.reduce((sum, r) => sum + r.revenue, 0) / operatingResults.length,
+    monthlyEBITDA: operatingResults.reduce((sum, r) => sum + r.ebitda, 0) / operatingResults.length
+  };
+}
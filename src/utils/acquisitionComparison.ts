@@ -0,0 +1,117 @@
+// Cash vs loan vs lease decision engine - every acquisition method run against the same operating assumptions
+
+import type { CalculatorInputs, FinancingInputs, KPIs, MonthlyResults } from './calculations';
+import { calculateAllResults, calculateKPIs } from './calculations';
+
+export type AcquisitionMethod = FinancingInputs['purchaseMethod'];
+
+export type ComparisonObjective = 'afterTaxCost' | 'npv' | 'payback' | 'peakCash' | 'monthlyPayment';
+
+export interface AcquisitionOption {
+  method: AcquisitionMethod;
+  label: string;
+  financing: FinancingInputs;
+  results: MonthlyResults[];
+  kpis: KPIs;
+  afterTaxCost: number;
+  npv: number;
+  paybackMonths: number;
+  peakCashNeed: number;
+  monthlyPayment: number;
+}
+
+// Typical terms for each method when it is not the one set up in the financing inputs - an FMV lease
+// leaves a market residual and a capital lease a $1 buyout, both priced by money factor; loans and
+// promos amortize fully
+export const ACQUISITION_METHODS: Array<{ method: AcquisitionMethod; label: string; terms: Partial<FinancingInputs> }> = [
+  { method: 'cash', label: 'Cash', terms: {} },
+  { method: 'loan', label: 'Term Loan', terms: { balloonResidual: 0, balloonType: 'dollar' } },
+  {
+    method: 'lease-fmv',
+    label: 'Lease (FMV)',
+    terms: { balloonResidual: 15, balloonType: 'percent', leaseRateType: 'money-factor', moneyFactor: 0.003, leaseBuyout: false }
+  },
+  {
+    method: 'lease-capital',
+    label: 'Lease (Capital)',
+    terms: { balloonResidual: 1, balloonType: 'dollar', leaseRateType: 'money-factor', moneyFactor: 0.0027 }
+  },
+  { method: 'promo-0', label: '0% Promo', terms: { balloonResidual: 0, balloonType: 'dollar' } }
+];
+
+export const COMPARISON_OBJECTIVES: Record<ComparisonObjective, { label: string; value: (option: AcquisitionOption) => number }> = {
+  afterTaxCost: { label: 'Lowest After-Tax Cost', value: option => -option.afterTaxCost },
+  npv: { label: 'Highest NPV', value: option => option.npv },
+  payback: { label: 'Fastest Payback', value: option => -option.paybackMonths },
+  peakCash: { label: 'Least Cash Needed', value: option => -option.peakCashNeed },
+  monthlyPayment: { label: 'Lowest Monthly Payment', value: option => -option.monthlyPayment }
+};
+
+// Horizon long enough to include the final payment of every option
+export function getComparisonHorizon(financing: FinancingInputs): number {
+  return Math.max(60, financing.termMonths);
+}
+
+// The practice without the device - same operations, nothing to pay for or depreciate
+function buildBaselineInputs(inputs: CalculatorInputs): CalculatorInputs {
+  return {
+    ...inputs,
+    device: {
+      ...inputs.device,
+      msrp: 0,
+      discount: 0,
+      accessories: 0,
+      shippingInstall: 0,
+      salvageValue: 0,
+      resalePrice: 0,
+      sellingCosts: 0
+    },
+    financing: { ...inputs.financing, purchaseMethod: 'cash' }
+  };
+}
+
+// Largest cumulative cash deficit the practice has to fund
+function calculatePeakCashNeed(results: MonthlyResults[]): number {
+  return Math.max(0, ...results.map(r => -r.cumulativeCash));
+}
+
+// Run the model once per acquisition method
+export function compareAcquisitionMethods(inputs: CalculatorInputs): AcquisitionOption[] {
+  const months = getComparisonHorizon(inputs.financing);
+  const baselineResults = calculateAllResults(buildBaselineInputs(inputs), months);
+  const baselineCash = baselineResults.reduce((sum, r) => sum + r.cashFlow, 0);
+
+  return ACQUISITION_METHODS.map(({ method, label, terms }) => {
+    // The method already set up keeps its own deal; the others get their typical terms
+    const financing: FinancingInputs = method === inputs.financing.purchaseMethod
+      ? inputs.financing
+      : { ...inputs.financing, ...terms, purchaseMethod: method, lenderProgramId: '' };
+    const optionInputs: CalculatorInputs = { ...inputs, financing };
+    const results = calculateAllResults(optionInputs, months);
+    const kpis = calculateKPIs(results, optionInputs);
+
+    // After-tax cost is the cash the acquisition takes out of the practice, net of every tax shield it creates
+    const optionCash = results.reduce((sum, r) => sum + r.cashFlow, 0);
+
+    return {
+      method,
+      label,
+      financing,
+      results,
+      kpis,
+      afterTaxCost: baselineCash - optionCash,
+      npv: kpis.npv,
+      paybackMonths: kpis.paybackMonths,
+      peakCashNeed: calculatePeakCashNeed(results),
+      monthlyPayment: method === 'cash' ? 0 : kpis.monthlyEquivalentPayment
+    };
+  });
+}
+
+export function pickBestOption(options: AcquisitionOption[], objective: ComparisonObjective): AcquisitionOption | null {
+  const score = COMPARISON_OBJECTIVES[objective].value;
+  return options.reduce<AcquisitionOption | null>(
+    (best, option) => (best === null || score(option) > score(best) ? option : best),
+    null
+  );
+}
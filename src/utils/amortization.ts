@@ -0,0 +1,66 @@
+// Amortization schedule builder for loans, leases and promo financing
+
+import type { CalculatorInputs, DeviceInputs } from './calculations';
+import { calculateFinancedCost } from './calculations';
+import { buildFinancingSchedule, calculateAmountFinanced, type FinancingPeriod } from './financing';
+import { getDisposalMonth, settleScheduleAtSale } from './disposal';
+
+export interface AmortizationRow extends FinancingPeriod {
+  date: Date;
+  totalPayment: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  amountFinanced: number;
+  totalPayments: number;
+  totalInterest: number;
+  totalPrincipal: number;
+  totalFees: number;
+  balloon: number;
+  unreconciledPrincipal: number;
+  payoffMonth: number;
+  payoffDate: Date | null;
+}
+
+// Calendar date of a model month - model month 1 is the month and year the device is placed in service,
+// the same calendar the engine uses for tax years, escalation, seasonality and skip months
+export function getPeriodDate(device: DeviceInputs, month: number): Date {
+  return new Date(device.placedInServiceYear, device.placedInServiceMonth - 1 + month - 1, 1);
+}
+
+// Build every payment in the financing schedule, with dates and totals
+export function buildAmortizationSchedule(inputs: CalculatorInputs): AmortizationSchedule {
+  const financedCost = calculateFinancedCost(inputs.device, inputs.financing);
+  const unsettled = buildFinancingSchedule(inputs.financing, financedCost, inputs.device.placedInServiceMonth);
+  const periods = settleScheduleAtSale(
+    unsettled,
+    inputs.financing,
+    getDisposalMonth(inputs.device, inputs.financing, unsettled.length)
+  );
+
+  const rows: AmortizationRow[] = periods.map(period => ({
+    ...period,
+    date: getPeriodDate(inputs.device, period.month),
+    totalPayment: period.payment + period.residual + period.fees + period.prepayment + period.penalty
+  }));
+
+  const sum = (field: (row: AmortizationRow) => number) => rows.reduce((total, row) => total + field(row), 0);
+  const lastRow = rows[rows.length - 1];
+  const amountFinanced = rows.length > 0 ? calculateAmountFinanced(inputs.financing, financedCost) : 0;
+  const totalPrincipal = sum(row => row.principal + row.residual + row.prepayment);
+
+  return {
+    rows,
+    amountFinanced,
+    totalPayments: sum(row => row.totalPayment),
+    totalInterest: sum(row => row.interest),
+    totalPrincipal,
+    totalFees: sum(row => row.fees + row.penalty),
+    balloon: sum(row => row.residual),
+    // Principal, balloon and payoffs should repay exactly the amount financed - FMV lease payments are rent
+    unreconciledPrincipal: inputs.financing.purchaseMethod === 'lease-fmv' ? 0 : totalPrincipal - amountFinanced,
+    payoffMonth: lastRow ? lastRow.month : 0,
+    payoffDate: lastRow ? lastRow.date : null
+  };
+}
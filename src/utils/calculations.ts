@@ -1,5 +1,61 @@
 // Core financial calculation utilities for the MRP Calculator
 
+import {
+  allowsPrepayment,
+  buildFinancingSchedule,
+  calculateDownPayment,
+  calculateFinancingPayment,
+  calculateMonthlyEquivalentPayment,
+  calculatePromoComparison,
+  calculateResidual,
+  getFinancingPeriod,
+  hasLeaseBuyout,
+  type FinancingPeriod,
+  type PromoComparison
+} from './financing';
+import { getInventoryOrderMonths, getPrepaidMonths } from './accountingBasis';
+import { calculateReserves, getReserveRate, getTotalReserves } from './reserves';
+import { calculateServiceMonth, summarizeService, type ServiceSummary } from './service';
+import {
+  buildReplacementSchedule,
+  getPartsMonth,
+  getPartsRunRate,
+  summarizeParts,
+  type PartsSummary
+} from './replacementParts';
+import { buildDepreciationSchedule, buildTaxDepreciationSchedule, getMonthlyDepreciation } from './depreciation';
+import { calculateDisposal, calculateSaleGain, getDisposalMonth, settleScheduleAtSale, type DisposalSummary } from './disposal';
+import {
+  buildPackageSchedule,
+  calculateBlendedNetPrice,
+  getPackageMonth,
+  getSingleSessionPrice,
+  summarizePackages,
+  type PackageMonth,
+  type PackageSummary
+} from './packages';
+import {
+  buildMembershipSchedule,
+  getMemberSessions,
+  getMembershipMonth,
+  summarizeMembership,
+  type MembershipMonth,
+  type MembershipSummary
+} from './membership';
+import { deflateCashFlows, escalateFixedOpex, getCalendarMonth, getEscalationFactors } from './escalation';
+import { getLineShares, getMenuVolumeFactor, getTreatmentMix } from './treatmentMenu';
+import { getFunnelMonth, summarizeMarketing, type MarketingSummary } from './marketing';
+import { getMaxTreatmentsPerDay, getMonthlyCapacity, summarizeCapacity, type CapacitySummary } from './capacity';
+import {
+  calculateProviderMonths,
+  getProviderCostPerTreatment,
+  getProviderSalaries,
+  summarizeStaffing,
+  type StaffingSummary
+} from './staffing';
+import { allocateTaxYears, calculateTaxYears, type TaxYearSummary } from './taxes';
+import { calculateAcceleratedDeduction, DEFAULT_BONUS_RATES, type AcceleratedDeduction } from './section179';
+
 export interface DeviceInputs {
   msrp: number;
   discount: number;
@@ -9,23 +65,53 @@ export interface DeviceInputs {
   extendedWarrantyCost: number;
   depreciationMethod: 'straight-line' | 'macrs';
   depreciationLife: number;
+  depreciationConvention: 'half-year' | 'mid-quarter';
+  decliningBalanceRate: 150 | 200;
+  placedInServiceMonth: number;
   salvageValue: number;
   section179: boolean;
-  taxRate: number;
+  section179Limit: number;
+  section179PhaseOutThreshold: number;
+  otherEquipmentPurchases: number;
+  bonusDepreciation: boolean;
+  bonusRates: Record<number, number>;
+  placedInServiceYear: number;
+  entityType: 'pass-through' | 'c-corp';
+  federalTaxRate: number;
+  stateTaxRate: number;
+  stateConformity: boolean;
+  localTaxRate: number;
+  taxLossTreatment: 'carryforward' | 'offset';
+  disposalMonth: number;
+  resalePrice: number;
+  sellingCosts: number;
 }
 
 export interface FinancingInputs {
   purchaseMethod: 'cash' | 'loan' | 'lease-fmv' | 'lease-capital' | 'promo-0';
+  lenderProgramId: string;
+  creditTier: string;
   downPayment: number;
   downPaymentType: 'dollar' | 'percent';
   apr: number;
+  leaseRateType: 'apr' | 'money-factor';
+  moneyFactor: number;
+  leaseBuyout: boolean;
+  promoMonths: number;
+  promoType: 'standard-apr' | 'deferred-interest';
+  promoPayoff: boolean;
   termMonths: number;
-  paymentFrequency: 'monthly' | 'quarterly';
+  paymentFrequency: 'monthly' | 'quarterly' | 'semi-annual' | 'annual';
+  skipMonths: number[];
   balloonResidual: number;
   balloonType: 'dollar' | 'percent';
   originationFees: number;
+  financeFees: boolean;
   deferredMonths: number;
+  deferralInterest: 'capitalize' | 'pay';
   prepaymentPenalty: number;
+  earlyPayoffMonth: number;
+  extraPrincipal: number;
   includeSalesTax: boolean;
   salesTaxRate: number;
 }
@@ -37,18 +123,36 @@ export interface UtilizationInputs {
   noShowRate: number;
   avgTreatmentTime: number;
   seasonality: number[];
+  hoursPerDay: number;
+  treatmentRooms: number;
+  operators: number;
+  turnoverMinutes: number;
+  deviceAvailabilityPercent: number;
+}
+
+export interface TreatmentMenuItem {
+  name: string;
+  price: number;
+  treatmentTime: number;
+  consumables: number;
+  mixPercent: number;
+  ramp: number[];
 }
 
 export interface PricingInputs {
   listPricePerTreatment: number;
+  treatmentMenu: TreatmentMenuItem[];
   discountPercent: number;
   packages: Array<{
     sessions: number;
     price: number;
     attachRate: number;
   }>;
+  packageBreakagePercent: number;
   membershipMRR: number;
-  membershipPercent: number;
+  membershipConversionPercent: number;
+  membershipChurnPercent: number;
+  membershipIncludedTreatments: number;
   upsellAvgPerTx: number;
   upsellAttachRate: number;
 }
@@ -56,7 +160,6 @@ export interface PricingInputs {
 export interface VariableCosts {
   consumables: number;
   disposables: number;
-  clinicalTimeCost: number;
   roomTimeOverhead: number;
   paymentProcessingPercent: number;
   paymentProcessingFixed: number;
@@ -64,13 +167,87 @@ export interface VariableCosts {
 
 export interface FixedOpex {
   marketingBudget: number;
-  staffSalaryAllocation: number;
   rentAllocation: number;
   insurance: number;
   softwareEMR: number;
-  maintenancePostWarranty: number;
   calibrationService: number;
-  downtimeReserve: number;
+}
+
+// Service once the OEM warranty runs out - an extended warranty for a number of years (priced per year
+// on the device) or maintenance paid as it comes; either way the price rises each year
+export interface ServiceInputs {
+  coverage: 'extended-warranty' | 'pay-as-you-go';
+  extendedWarrantyYears: number;
+  maintenancePerMonth: number;
+  escalationPercent: number;
+}
+
+// A handpiece, tip or flashlamp that wears out - replaced after a number of treatments or months in
+// service, whichever comes first (0 = no limit), and ordered lead-time months ahead. A part with no
+// treatments listed is used for everything on the menu.
+export interface ReplacementPart {
+  name: string;
+  cost: number;
+  lifeTreatments: number;
+  lifeMonths: number;
+  leadTimeMonths: number;
+  treatments: string[];
+}
+
+export interface LifecycleInputs {
+  parts: ReplacementPart[];
+}
+
+// Percentages of revenue held back for downtime, refunds, chargebacks and bad debt
+export interface ReserveInputs {
+  downtimePercent: number;
+  refundPercent: number;
+  chargebackPercent: number;
+  badDebtPercent: number;
+}
+
+// A provider who performs treatments on the device. Pay can combine a salary allocated to the device,
+// an hourly rate for treatment time, commission, a per-treatment fee and a bonus over a revenue target.
+export interface Provider {
+  name: string;
+  role: 'md' | 'np' | 'rn' | 'aesthetician';
+  schedulePercent: number;
+  treatments: string[];
+  monthlySalary: number;
+  hourlyRate: number;
+  commissionPercent: number;
+  perTreatmentFee: number;
+  bonusPercent: number;
+  bonusThreshold: number;
+}
+
+export interface StaffingInputs {
+  providers: Provider[];
+}
+
+export interface EscalationInputs {
+  anniversaryMonth: number;
+  priceIncrease: number;
+  consumablesInflation: number;
+  laborInflation: number;
+  rentEscalator: number;
+  insuranceGrowth: number;
+  generalInflation: number;
+}
+
+export interface MarketingInputs {
+  volumeDriver: 'utilization' | 'funnel';
+  costPerLead: number;
+  organicLeadsPerMonth: number;
+  consultRate: number;
+  bookingRate: number;
+}
+
+export interface AccountingInputs {
+  basis: 'accrual' | 'cash';
+  membershipBilling: 'monthly' | 'annual';
+  insuranceBilling: 'monthly' | 'annual';
+  inventoryOrderMonths: number;
 }
 
 export interface CalculatorInputs {
@@ -80,55 +257,151 @@ export interface CalculatorInputs {
   pricing: PricingInputs;
   variableCosts: VariableCosts;
   fixedOpex: FixedOpex;
+  service: ServiceInputs;
+  lifecycle: LifecycleInputs;
+  reserves: ReserveInputs;
+  staffing: StaffingInputs;
+  marketing: MarketingInputs;
+  escalation: EscalationInputs;
+  accounting: AccountingInputs;
 }
 
 export interface MonthlyResults {
   month: number;
   treatments: number;
+  treatmentCapacity: number;
+  utilizationPercent: number;
   revenue: number;
+  packageSales: number;
+  packageRevenue: number;
+  deferredRevenue: number;
+  members: number;
+  newMembers: number;
+  memberTreatments: number;
+  membershipRevenue: number;
+  downtimeReserve: number;
+  refundReserve: number;
+  chargebackReserve: number;
+  badDebtReserve: number;
   variableCosts: number;
+  providerCompensation: number;
   grossProfit: number;
   fixedOpex: number;
+  serviceCost: number;
+  partsReplacement: number;
   ebitda: number;
   depreciation: number;
+  taxDepreciation: number;
+  stateTaxDepreciation: number;
   interest: number;
+  leaseExpense: number;
+  financingPayment: number;
   ebit: number;
+  ebt: number;
   taxes: number;
+  interestTaxShield: number;
+  saleProceeds: number;
+  gainOnSale: number;
+  taxGainOnSale: number;
+  stateTaxGainOnSale: number;
   netIncome: number;
+  cashRevenue: number;
+  cashReserves: number;
+  cashVariableCosts: number;
+  cashPartsReplacement: number;
+  cashFixedOpex: number;
+  cashLeaseExpense: number;
   cashFlow: number;
   cumulativeCash: number;
   loanBalance: number;
 }
 
+export interface PrepaymentAnalysis {
+  payoffMonth: number;
+  interestSaved: number;
+  penaltyCharged: number;
+  npvChange: number;
+  paybackChange: number;
+}
+
 export interface KPIs {
   monthlyPayment: number;
+  paymentFrequency: FinancingInputs['paymentFrequency'];
+  monthlyEquivalentPayment: number;
   monthlyRevenue: number;
   monthlyEBITDA: number;
   breakevenTreatmentsPerDay: number;
   paybackMonths: number;
   npv: number;
+  realNpv: number;
   irr: number;
   dscr: number;
+  promoComparison?: PromoComparison;
+  prepaymentAnalysis?: PrepaymentAnalysis;
+  acceleratedDeduction?: AcceleratedDeduction;
+  taxYears: TaxYearSummary[];
+  interestTaxShield: number;
+  disposal?: DisposalSummary;
+  packages?: PackageSummary;
+  membership?: MembershipSummary;
+  marketing: MarketingSummary;
+  capacity: CapacitySummary;
+  staffing: StaffingSummary;
+  service: ServiceSummary;
+  parts: PartsSummary;
+  treatmentProfitability: TreatmentProfitability[];
+}
+
+// Steady-state unit economics of one line on the treatment menu, sold as a single session
+export interface TreatmentProfitability {
+  name: string;
+  mixShare: number;
+  netPrice: number;
+  variableCost: number;
+  contribution: number;
+  contributionPerHour: number;
+  monthlyTreatments: number;
+  monthlyContribution: number;
+}
+
+// Who is treated each month - package patients and members, from the same new-patient flow
+export interface PatientSchedule {
+  packages: PackageMonth[];
+  memberships: MembershipMonth[];
+}
+
+export { calculatePMT } from './financing';
+
+// Total acquisition cost of the device before financing
+export function calculateAcquisitionCost(device: DeviceInputs): number {
+  return device.msrp - device.discount + device.accessories + device.shippingInstall;
+}
+
+// Sales tax on the taxable portion of the acquisition (shipping, install and training are exempt)
+export function calculateSalesTax(device: DeviceInputs, financing: FinancingInputs): number {
+  const taxableAmount = device.msrp - device.discount + device.accessories;
+  return Math.max(0, taxableAmount) * financing.salesTaxRate / 100;
 }
 
-// Loan payment calculation (PMT function)
-export function calculatePMT(apr: number, termMonths: number, principal: number): number {
-  const r = apr / 12;
-  if (r === 0) return principal / termMonths;
-  return (r * principal) / (1 - Math.pow(1 + r, -termMonths));
+// Cost handed to the financing schedule - sales tax is rolled into the principal when financed
+export function calculateFinancedCost(device: DeviceInputs, financing: FinancingInputs): number {
+  const acquisitionCost = calculateAcquisitionCost(device);
+  return financing.includeSalesTax ? acquisitionCost + calculateSalesTax(device, financing) : acquisitionCost;
 }
 
-// Calculate monthly treatment volume with ramp and seasonality
+// Calculate monthly treatment volume with ramp and seasonality - the seasonality index runs January to
+// December, and model month 1 is the month the device is placed in service
 export function calculateMonthlyTreatments(
   openDays: number,
   treatmentsPerDay: number,
   noShowRate: number,
   month: number,
   ramp: number[],
-  seasonality: number[]
+  seasonality: number[],
+  placedInServiceMonth: number
 ): number {
   const rampFactor = month <= ramp.length ? ramp[month - 1] / 100 : 1;
-  const seasonalityFactor = seasonality[(month - 1) % 12] / 100;
+  const seasonalityFactor = seasonality[getCalendarMonth(month, placedInServiceMonth) - 1] / 100;
   
   return openDays * treatmentsPerDay * (1 - noShowRate / 100) * rampFactor * seasonalityFactor;
 }
@@ -149,171 +422,385 @@ export function calculateNetPricePerTreatment(
 export function calculateVariableCostPerTreatment(
   consumables: number,
   disposables: number,
-  clinicalTimeCost: number,
+  providerCostPerTx: number,
   avgTreatmentTime: number,
   roomTimeOverhead: number,
   paymentProcessingPercent: number,
   paymentProcessingFixed: number,
   netPrice: number
 ): number {
-  const clinicalCost = (clinicalTimeCost * avgTreatmentTime) / 60;
   const roomCost = (roomTimeOverhead * avgTreatmentTime) / 60;
   const processingCost = (netPrice * paymentProcessingPercent / 100) + paymentProcessingFixed;
   
-  return consumables + disposables + clinicalCost + roomCost + processingCost;
+  return consumables + disposables + providerCostPerTx + roomCost + processingCost;
 }
 
-// Calculate depreciation
+// Calculate depreciation for one month of the asset's schedule
 export function calculateDepreciation(
-  method: 'straight-line' | 'macrs',
+  device: DeviceInputs,
   cost: number,
   salvageValue: number,
-  life: number,
-  month: number
+  month: number,
+  placedInServiceMonth: number = device.placedInServiceMonth
 ): number {
-  if (method === 'straight-line') {
-    return (cost - salvageValue) / (life * 12);
+  return getMonthlyDepreciation(buildDepreciationSchedule(device, cost, salvageValue, placedInServiceMonth), month);
+}
+
+// Treatments booked in a month - demand for menu lines that are still ramping up is not there yet,
+// and after ramp and seasonality no more are booked than the clinic can fit in the month. When the
+// marketing funnel drives volume this is only the ceiling: the schedule is full every open day, and
+// patients come in as fast as the funnel brings them.
+function calculateBookedTreatments(inputs: CalculatorInputs, month: number): number {
+  const { utilization, pricing } = inputs;
+  if (inputs.marketing.volumeDriver === 'funnel') {
+    const treatmentsPerDay = Math.min(utilization.treatmentsPerDay, getMaxTreatmentsPerDay(inputs, month));
+    return utilization.openDaysPerMonth * treatmentsPerDay * (1 - utilization.noShowRate / 100);
   }
-  
-  // Simplified MACRS - 5-year property
-  const macrsRates = [0.20, 0.32, 0.192, 0.1152, 0.1152, 0.0576];
-  const year = Math.floor((month - 1) / 12);
-  if (year >= macrsRates.length) return 0;
-  
-  return (cost * macrsRates[year]) / 12;
+  const planned = calculateMonthlyTreatments(
+    utilization.openDaysPerMonth,
+    utilization.treatmentsPerDay,
+    utilization.noShowRate,
+    month,
+    utilization.utilizationRamp,
+    utilization.seasonality,
+    inputs.device.placedInServiceMonth
+  ) * getMenuVolumeFactor(pricing.treatmentMenu, month);
+  return Math.min(planned, getMonthlyCapacity(inputs, month) * (1 - utilization.noShowRate / 100));
+}
+
+// Package sales, redemptions and membership over the months the device is in service. Member visits
+// are booked first, then new patients join as the marketing funnel brings them in, up to the capacity
+// left. When the utilization ramp drives volume, returning patients book the rest of the planned
+// treatments as single sessions; unredeemed package sessions are refunded when the device is sold.
+export function buildPatientSchedule(inputs: CalculatorInputs, months: number): PatientSchedule {
+  const { device, financing, pricing, marketing, escalation, accounting } = inputs;
+  const disposalMonth = getDisposalMonth(device, financing, months);
+  const treatments = Array.from({ length: disposalMonth > 0 ? disposalMonth : months }, (_, index) =>
+    calculateBookedTreatments(inputs, index + 1)
+  );
+  const packages = buildPackageSchedule(
+    pricing,
+    treatments,
+    month => getFunnelMonth(inputs, month).newPatients,
+    disposalMonth > 0,
+    (month, schedule) => getMemberSessions(pricing, schedule.map(m => m.newPatients), month),
+    month => getEscalationFactors(escalation, month, device.placedInServiceMonth).price,
+    marketing.volumeDriver === 'utilization'
+  );
+  const memberships = buildMembershipSchedule(pricing, packages.map(m => m.newPatients), accounting.membershipBilling);
+  return { packages, memberships };
+}
+
+// Member visits, single sessions and package sessions redeemed in a month
+function getScheduledTreatments(patients: PatientSchedule, month: number): number {
+  const packageMonth = getPackageMonth(patients.packages, month);
+  return packageMonth.reservedSessions + packageMonth.singleSessions + packageMonth.packageSessions;
 }
 
 // Calculate monthly results for a given month
 export function calculateMonthlyResults(
   inputs: CalculatorInputs,
   month: number,
-  previousBalance: number = 0,
-  previousCumulativeCash: number = 0
+  previousCumulativeCash: number = 0,
+  schedule: FinancingPeriod[] = buildFinancingSchedule(
+    inputs.financing,
+    calculateFinancedCost(inputs.device, inputs.financing),
+    inputs.device.placedInServiceMonth
+  ),
+  tax: { taxes: number; interestTaxShield: number } = { taxes: 0, interestTaxShield: 0 },
+  patients: PatientSchedule = buildPatientSchedule(inputs, month + inputs.accounting.inventoryOrderMonths)
 ): MonthlyResults {
-  const { device, financing, utilization, pricing, variableCosts, fixedOpex } = inputs;
+  const { device, financing, pricing, variableCosts, fixedOpex, escalation, accounting } = inputs;
   
-  // Calculate treatments
-  const treatments = calculateMonthlyTreatments(
-    utilization.openDaysPerMonth,
-    utilization.treatmentsPerDay,
-    utilization.noShowRate,
-    month,
-    utilization.utilizationRamp,
-    utilization.seasonality
-  );
+  // Once the device is sold there is nothing left to run - only the tax bill for the year of sale
+  const disposalMonth = getDisposalMonth(device, financing, month);
+  if (disposalMonth > 0 && month > disposalMonth) {
+    return createClosedMonth(month, previousCumulativeCash, tax);
+  }
   
-  // Calculate revenue
-  const netPricePerTx = calculateNetPricePerTreatment(
-    pricing.listPricePerTreatment,
-    pricing.discountPercent,
-    pricing.upsellAvgPerTx,
-    pricing.upsellAttachRate
-  );
+  // Calculate treatments - member visits, single sessions and package sessions redeemed this month
+  const packageMonth = getPackageMonth(patients.packages, month);
+  const membershipMonth = getMembershipMonth(patients.memberships, month);
+  const treatments = getScheduledTreatments(patients, month);
+  const treatmentCapacity = getMonthlyCapacity(inputs, month);
+  
+  // Prices and costs step up each year on the anniversary month
+  const factors = getEscalationFactors(escalation, month, device.placedInServiceMonth);
   
-  const revenue = treatments * netPricePerTx + pricing.membershipMRR * (pricing.membershipPercent / 100);
+  // Calculate revenue - package revenue is earned as sessions are redeemed, not when the package is sold,
+  // and treatments included in a membership are paid for by the dues. Single sessions are priced at
+  // this month's treatment menu mix.
+  const mix = getTreatmentMix(inputs, month);
+  const upsellRevenue = treatments * pricing.upsellAvgPerTx * (pricing.upsellAttachRate / 100) * factors.price;
+  const treatmentRevenue = packageMonth.singleSessions * getSingleSessionPrice(pricing, mix.listPrice) * factors.price
+    + packageMonth.packageRevenue
+    + upsellRevenue;
+  const netPricePerTx = treatments > 0
+    ? treatmentRevenue / treatments
+    : calculateBlendedNetPrice(pricing) * factors.price;
   
-  // Calculate variable costs
+  const membershipRevenue = membershipMonth.membershipRevenue;
+  const revenue = treatmentRevenue + membershipRevenue;
+  
+  // Provider pay - salaries are fixed, everything else follows the treatments each provider performs
+  const providers = calculateProviderMonths(inputs, month, treatments, treatmentRevenue);
+  const providerSalaries = providers.reduce((sum, provider) => sum + provider.salary, 0);
+  const providerVariablePay = providers.reduce((sum, provider) => sum + provider.variablePay, 0);
+  
+  // Calculate variable costs - room time is charged like rent
   const variableCostPerTx = calculateVariableCostPerTreatment(
-    variableCosts.consumables,
-    variableCosts.disposables,
-    variableCosts.clinicalTimeCost,
-    utilization.avgTreatmentTime,
-    variableCosts.roomTimeOverhead,
+    mix.consumables * factors.consumables,
+    variableCosts.disposables * factors.consumables,
+    treatments > 0 ? providerVariablePay / treatments : 0,
+    mix.treatmentTime,
+    variableCosts.roomTimeOverhead * factors.rent,
     variableCosts.paymentProcessingPercent,
     variableCosts.paymentProcessingFixed,
     netPricePerTx
   );
   
-  const totalVariableCosts = treatments * variableCostPerTx;
-  const grossProfit = revenue - totalVariableCosts;
-  
-  // Calculate fixed costs
-  const totalFixedOpex = Object.values(fixedOpex).reduce((sum, cost) => sum + cost, 0);
-  
-  // Calculate depreciation
-  const totalCost = device.msrp - device.discount + device.accessories + device.shippingInstall;
-  const depreciation = calculateDepreciation(
-    device.depreciationMethod,
-    totalCost,
-    device.salvageValue,
-    device.depreciationLife,
+  // Handpieces, tips and flashlamps are replaced as they wear out - the cost lands in the month the
+  // new part goes in, and is paid when it is ordered
+  const parts = getPartsMonth(
+    buildReplacementSchedule(inputs, patients.packages.map((_, index) => getScheduledTreatments(patients, index + 1))),
     month
   );
   
-  // Calculate financing
-  let monthlyPayment = 0;
-  let interest = 0;
-  let newBalance = previousBalance;
+  const totalVariableCosts = treatments * variableCostPerTx + parts.cost;
   
-  if (financing.purchaseMethod === 'loan') {
-    const principal = totalCost - (financing.downPaymentType === 'percent' ? 
-      totalCost * financing.downPayment / 100 : financing.downPayment);
-    
-    if (month === 1) {
-      newBalance = principal;
-    }
-    
-    monthlyPayment = calculatePMT(financing.apr, financing.termMonths, principal);
-    interest = newBalance * (financing.apr / 12);
-    newBalance = Math.max(0, newBalance - (monthlyPayment - interest));
+  // Reserves come off revenue - downtime, refunds, chargebacks and bad debt
+  const reserves = calculateReserves(inputs.reserves, revenue);
+  const grossProfit = revenue - getTotalReserves(reserves) - totalVariableCosts;
+  
+  // Nothing is prepaid past the month the device is sold
+  const lastMonth = getDisposalMonth(device, financing, Number.POSITIVE_INFINITY) || Number.POSITIVE_INFINITY;
+  
+  // Calculate fixed costs - service is free under the OEM warranty, then an extended warranty or maintenance
+  const service = calculateServiceMonth(inputs, month, lastMonth);
+  const totalFixedOpex = escalateFixedOpex(fixedOpex, factors) + providerSalaries + service.cost;
+  
+  // Cash timing - packages are paid for at sale, annual memberships, insurance and extended warranties
+  // a year up front, and inventory and replacement parts are bought ahead of use.
+  const cashRevenue = revenue - membershipRevenue - packageMonth.packageRevenue
+    + packageMonth.packageSales - packageMonth.refunds
+    + membershipMonth.membershipCash;
+  // Inventory is bought at this month's prices, for the treatments actually scheduled
+  const inventoryPerTx = (orderMonth: number) =>
+    (getTreatmentMix(inputs, orderMonth).consumables + variableCosts.disposables) * factors.consumables;
+  const inventoryPurchases = getInventoryOrderMonths(accounting.inventoryOrderMonths, month, lastMonth)
+    .reduce((sum, orderMonth) => sum + inventoryPerTx(orderMonth) * getScheduledTreatments(patients, orderMonth), 0);
+  const cashReserves = cashRevenue * getReserveRate(inputs.reserves);
+  const cashVariableCosts = totalVariableCosts - treatments * inventoryPerTx(month) + inventoryPurchases
+    - parts.cost + parts.cash;
+  const insurance = fixedOpex.insurance * factors.insurance;
+  const cashFixedOpex = totalFixedOpex - insurance - service.cost
+    + insurance * getPrepaidMonths(accounting.insuranceBilling, month, lastMonth)
+    + service.cash;
+  
+  // Calculate depreciation - FMV leases are off balance sheet until bought out.
+  // Sales tax is part of the depreciable basis whether it is financed or paid up front.
+  const salesTax = calculateSalesTax(device, financing);
+  const totalCost = calculateAcquisitionCost(device) + salesTax;
+  const financedCost = calculateFinancedCost(device, financing);
+  let depreciation = 0;
+  if (financing.purchaseMethod !== 'lease-fmv') {
+    depreciation = calculateDepreciation(device, totalCost, device.salvageValue, month);
+  } else if (hasLeaseBuyout(financing) && month > financing.termMonths) {
+    const buyoutPrice = calculateResidual(financing, financedCost);
+    depreciation = calculateDepreciation(
+      device,
+      buyoutPrice,
+      Math.min(device.salvageValue, buyoutPrice),
+      month - financing.termMonths,
+      (device.placedInServiceMonth + financing.termMonths - 1) % 12 + 1
+    );
   }
   
-  const ebitda = grossProfit - totalFixedOpex;
+  // Tax depreciation - Section 179 and bonus come off the top in the first tax year. States that
+  // decouple from federal depreciation allow only the regular schedule.
+  let taxDepreciation = depreciation;
+  let stateTaxDepreciation = depreciation;
+  if (financing.purchaseMethod !== 'lease-fmv') {
+    const accelerated = calculateAcceleratedDeduction(device, financing, totalCost);
+    taxDepreciation = getMonthlyDepreciation(
+      buildTaxDepreciationSchedule(device, totalCost, device.salvageValue, accelerated.section179 + accelerated.bonus),
+      month
+    );
+    stateTaxDepreciation = getMonthlyDepreciation(
+      buildTaxDepreciationSchedule(device, totalCost, device.salvageValue, 0),
+      month
+    );
+  }
+  
+  // Calculate financing
+  const period = getFinancingPeriod(schedule, month);
+  const financingPayment = period.payment + period.residual + period.fees + period.prepayment + period.penalty;
+  
+  const ebitda = grossProfit - totalFixedOpex - period.leaseExpense;
+  // FMV rent as actually paid - the down payment up front, then each scheduled payment
+  const cashLeaseExpense = period.leaseExpense > 0
+    ? period.payment + (month === 1 ? calculateDownPayment(financing, financedCost) : 0)
+    : 0;
   const ebit = ebitda - depreciation;
-  const taxes = Math.max(0, ebit * (device.taxRate / 100));
-  const netIncome = ebit - taxes;
+  const ebt = ebit - period.interest;
+  
+  // Sale proceeds at exit; the gain is taxed with the rest of the year's income
+  const sale = month === disposalMonth
+    ? calculateSaleGain(device, financing, totalCost, financedCost, month)
+    : null;
+  const saleProceeds = sale ? sale.amountRealized : 0;
   
-  // Calculate cash flow
-  let cashFlow = ebitda - taxes;
+  // Taxes are assessed per tax year (see calculateAllResults) and passed in as this month's share
+  const taxes = tax.taxes;
+  const netIncome = ebt + (sale ? sale.gainOnSale : 0) - taxes;
+  
+  // Calculate cash flow from what was actually received and paid this month
+  let cashFlow = cashRevenue - cashReserves - cashVariableCosts - cashFixedOpex - period.leaseExpense - taxes;
   
   // Handle initial investment
   if (month === 1) {
     if (financing.purchaseMethod === 'cash') {
       cashFlow -= totalCost;
-    } else if (financing.purchaseMethod === 'loan') {
-      // For loans, subtract the down payment in month 1
-      const downPaymentAmount = financing.downPaymentType === 'percent' ? 
-        totalCost * financing.downPayment / 100 : financing.downPayment;
-      cashFlow -= downPaymentAmount;
+    } else {
+      // Loans and leases require the down payment (or cap cost reduction) up front,
+      // plus sales tax when it is not rolled into the financing
+      cashFlow -= calculateDownPayment(financing, financedCost) + (totalCost - financedCost);
     }
   }
   
-  // For loans, subtract monthly payment from cash flow (this is the correct approach)
-  if (financing.purchaseMethod === 'loan') {
-    cashFlow -= monthlyPayment;
-  }
+  // Subtract debt service; FMV lease payments already sit in EBITDA as lease expense.
+  // In the month of sale this includes paying off the remaining balance.
+  cashFlow -= financingPayment - period.leaseExpense;
+  cashFlow += saleProceeds;
   
   const cumulativeCash = previousCumulativeCash + cashFlow;
   
   return {
     month,
     treatments,
+    treatmentCapacity,
+    utilizationPercent: treatmentCapacity > 0 ? treatments / treatmentCapacity * 100 : 0,
     revenue,
+    packageSales: packageMonth.packageSales,
+    packageRevenue: packageMonth.packageRevenue,
+    deferredRevenue: packageMonth.deferredRevenue,
+    members: membershipMonth.members,
+    newMembers: membershipMonth.newMembers,
+    memberTreatments: packageMonth.reservedSessions,
+    membershipRevenue,
+    ...reserves,
     variableCosts: totalVariableCosts,
+    providerCompensation: providerSalaries + providerVariablePay,
     grossProfit,
     fixedOpex: totalFixedOpex,
+    serviceCost: service.cost,
+    partsReplacement: parts.cost,
     ebitda,
     depreciation,
-    interest,
+    taxDepreciation,
+    stateTaxDepreciation,
+    interest: period.interest,
+    leaseExpense: period.leaseExpense,
+    financingPayment,
     ebit,
+    ebt,
     taxes,
+    interestTaxShield: tax.interestTaxShield,
+    saleProceeds,
+    gainOnSale: sale ? sale.gainOnSale : 0,
+    taxGainOnSale: sale ? sale.taxGainOnSale : 0,
+    stateTaxGainOnSale: sale ? sale.stateTaxGainOnSale : 0,
     netIncome,
+    cashRevenue,
+    cashReserves,
+    cashVariableCosts,
+    cashPartsReplacement: parts.cash,
+    cashFixedOpex,
+    cashLeaseExpense,
     cashFlow,
     cumulativeCash,
-    loanBalance: newBalance
+    loanBalance: period.balance
+  };
+}
+
+// A month after the device has been sold
+function createClosedMonth(
+  month: number,
+  previousCumulativeCash: number,
+  tax: { taxes: number; interestTaxShield: number }
+): MonthlyResults {
+  return {
+    month,
+    treatments: 0,
+    treatmentCapacity: 0,
+    utilizationPercent: 0,
+    revenue: 0,
+    packageSales: 0,
+    packageRevenue: 0,
+    deferredRevenue: 0,
+    members: 0,
+    newMembers: 0,
+    memberTreatments: 0,
+    membershipRevenue: 0,
+    downtimeReserve: 0,
+    refundReserve: 0,
+    chargebackReserve: 0,
+    badDebtReserve: 0,
+    variableCosts: 0,
+    providerCompensation: 0,
+    grossProfit: 0,
+    fixedOpex: 0,
+    serviceCost: 0,
+    partsReplacement: 0,
+    ebitda: 0,
+    depreciation: 0,
+    taxDepreciation: 0,
+    stateTaxDepreciation: 0,
+    interest: 0,
+    leaseExpense: 0,
+    financingPayment: 0,
+    ebit: 0,
+    ebt: 0,
+    taxes: tax.taxes,
+    interestTaxShield: tax.interestTaxShield,
+    saleProceeds: 0,
+    gainOnSale: 0,
+    taxGainOnSale: 0,
+    stateTaxGainOnSale: 0,
+    netIncome: -tax.taxes,
+    cashRevenue: 0,
+    cashReserves: 0,
+    cashVariableCosts: 0,
+    cashPartsReplacement: 0,
+    cashFixedOpex: 0,
+    cashLeaseExpense: 0,
+    cashFlow: -tax.taxes,
+    cumulativeCash: previousCumulativeCash - tax.taxes,
+    loanBalance: 0
   };
 }
 
 // Calculate all monthly results
 export function calculateAllResults(inputs: CalculatorInputs, months: number = 60): MonthlyResults[] {
   const results: MonthlyResults[] = [];
-  let previousBalance = 0;
+  const patients = buildPatientSchedule(inputs, months);
+  const schedule = settleScheduleAtSale(
+    buildFinancingSchedule(inputs.financing, calculateFinancedCost(inputs.device, inputs.financing), inputs.device.placedInServiceMonth),
+    inputs.financing,
+    getDisposalMonth(inputs.device, inputs.financing, months)
+  );
+  
+  // Pre-tax pass to find taxable income, then assess each tax year as a whole
+  const preTaxResults = Array.from({ length: months }, (_, index) =>
+    calculateMonthlyResults(inputs, index + 1, 0, schedule, undefined, patients)
+  );
+  const taxYears = calculateTaxYears(preTaxResults, inputs.device);
   let previousCumulativeCash = 0;
   
   for (let month = 1; month <= months; month++) {
-    const result = calculateMonthlyResults(inputs, month, previousBalance, previousCumulativeCash);
+    const tax = allocateTaxYears(taxYears, month, inputs.device);
+    const result = calculateMonthlyResults(inputs, month, previousCumulativeCash, schedule, tax, patients);
     results.push(result);
-    previousBalance = result.loanBalance;
     previousCumulativeCash = result.cumulativeCash;
   }
   
@@ -323,69 +810,231 @@ export function calculateAllResults(inputs: CalculatorInputs, months: number = 6
 // Calculate KPIs
 export function calculateKPIs(results: MonthlyResults[], inputs: CalculatorInputs): KPIs {
   // const lastResult = results[results.length - 1];
-  const avgMonthlyRevenue = results.reduce((sum, r) => sum + r.revenue, 0) / results.length;
-  const avgMonthlyEBITDA = results.reduce((sum, r) => sum + r.ebitda, 0) / results.length;
-  
-  // Calculate monthly payment
-  let monthlyPayment = 0;
-  if (inputs.financing.purchaseMethod === 'loan') {
-    const totalCost = inputs.device.msrp - inputs.device.discount + inputs.device.accessories + inputs.device.shippingInstall;
-    const principal = totalCost - (inputs.financing.downPaymentType === 'percent' ? 
-      totalCost * inputs.financing.downPayment / 100 : inputs.financing.downPayment);
-    monthlyPayment = calculatePMT(inputs.financing.apr, inputs.financing.termMonths, principal);
-  }
+  // Averages cover the months the device is in service
+  const disposalMonth = getDisposalMonth(inputs.device, inputs.financing, results.length);
+  const operatingResults = disposalMonth > 0 ? results.slice(0, disposalMonth) : results;
+  const avgMonthlyRevenue = operatingResults.reduce((sum, r) => sum + r.revenue, 0) / operatingResults.length;
+  const avgMonthlyEBITDA = operatingResults.reduce((sum, r) => sum + r.ebitda, 0) / operatingResults.length;
   
-  // Calculate breakeven treatments per day
-  const grossMarginPerTx = calculateNetPricePerTreatment(
-    inputs.pricing.listPricePerTreatment,
-    inputs.pricing.discountPercent,
-    inputs.pricing.upsellAvgPerTx,
-    inputs.pricing.upsellAttachRate
-  ) - calculateVariableCostPerTreatment(
-    inputs.variableCosts.consumables,
+  // Calculate the per-period payment (loan or lease) and its monthly equivalent
+  const financedCost = calculateFinancedCost(inputs.device, inputs.financing);
+  const monthlyPayment = calculateFinancingPayment(inputs.financing, financedCost, inputs.device.placedInServiceMonth);
+  const monthlyEquivalentPayment = calculateMonthlyEquivalentPayment(inputs.financing, financedCost, inputs.device.placedInServiceMonth);
+  
+  // Calculate breakeven treatments per day at the blended single-session and package price, after reserves
+  // and the wear on replacement parts
+  const blendedNetPrice = calculateBlendedNetPrice(inputs.pricing);
+  const steadyMix = getTreatmentMix(inputs);
+  const partsRunRate = getPartsRunRate(inputs);
+  const grossMarginPerTx = blendedNetPrice * (1 - getReserveRate(inputs.reserves)) - calculateVariableCostPerTreatment(
+    steadyMix.consumables,
     inputs.variableCosts.disposables,
-    inputs.variableCosts.clinicalTimeCost,
-    inputs.utilization.avgTreatmentTime,
+    getProviderCostPerTreatment(inputs, blendedNetPrice),
+    steadyMix.treatmentTime,
     inputs.variableCosts.roomTimeOverhead,
     inputs.variableCosts.paymentProcessingPercent,
     inputs.variableCosts.paymentProcessingFixed,
-    calculateNetPricePerTreatment(
-      inputs.pricing.listPricePerTreatment,
-      inputs.pricing.discountPercent,
-      inputs.pricing.upsellAvgPerTx,
-      inputs.pricing.upsellAttachRate
-    )
-  );
+    blendedNetPrice
+  ) - partsRunRate.perTreatment;
   
-  const totalFixedCosts = Object.values(inputs.fixedOpex).reduce((sum, cost) => sum + cost, 0);
-  const breakevenTreatmentsPerMonth = (totalFixedCosts + monthlyPayment) / grossMarginPerTx;
+  // Service is taken at its post-warranty run rate
+  const serviceRunRate = inputs.service.coverage === 'extended-warranty'
+    ? inputs.device.extendedWarrantyCost / 12
+    : inputs.service.maintenancePerMonth;
+  const totalFixedCosts = Object.values(inputs.fixedOpex).reduce((sum, cost) => sum + cost, 0)
+    + getProviderSalaries(inputs)
+    + serviceRunRate
+    + partsRunRate.perMonth;
+  const breakevenTreatmentsPerMonth = (totalFixedCosts + monthlyEquivalentPayment) / grossMarginPerTx;
   const breakevenTreatmentsPerDay = breakevenTreatmentsPerMonth / inputs.utilization.openDaysPerMonth;
   
   // Calculate payback period
-  const paybackMonth = results.findIndex(r => r.cumulativeCash >= 0) + 1;
-  const paybackMonths = paybackMonth > 0 ? paybackMonth : results.length;
+  const paybackMonths = calculatePaybackMonths(results);
   
   // Calculate NPV (simplified)
-  const discountRate = 0.10; // 10% discount rate
-  const npv = results.reduce((sum, r, index) => {
-    return sum + (r.cashFlow / Math.pow(1 + discountRate, index / 12));
-  }, 0);
+  const npv = calculateNPV(results);
+  
+  // Real NPV - the same cash flows in today's dollars, with the discount rate read as a real return
+  const realNpv = calculatePresentValue(
+    deflateCashFlows(results.map(r => r.cashFlow), inputs.escalation.generalInflation)
+  );
   
   // Calculate IRR (simplified approximation)
   const irr = calculateIRR(results.map(r => r.cashFlow));
   
-  // Calculate DSCR
-  const dscr = avgMonthlyEBITDA / Math.max(monthlyPayment, 1);
+  // Calculate DSCR - lease expense is added back so coverage is measured before rent (EBITDAR)
+  const avgMonthlyLeaseExpense = operatingResults.reduce((sum, r) => sum + r.leaseExpense, 0) / operatingResults.length;
+  const dscr = (avgMonthlyEBITDA + avgMonthlyLeaseExpense) / Math.max(monthlyEquivalentPayment, 1);
+  
+  // Compare promo financing against a standard loan at the same APR
+  const promoComparison = inputs.financing.purchaseMethod === 'promo-0'
+    ? calculatePromoComparison(inputs.financing, financedCost, inputs.device.placedInServiceMonth)
+    : undefined;
+  
+  // Compare early payoff / extra principal against running the loan to term
+  const prepaymentAnalysis = allowsPrepayment(inputs.financing)
+    ? calculatePrepaymentAnalysis(inputs, results.length, npv, paybackMonths)
+    : undefined;
+  
+  // Exit at the chosen month - the proceeds are already in the cash flows, so they flow into NPV and IRR
+  const disposal = disposalMonth > 0
+    ? calculateDisposal(
+      inputs.device,
+      inputs.financing,
+      calculateAcquisitionCost(inputs.device) + calculateSalesTax(inputs.device, inputs.financing),
+      financedCost,
+      buildFinancingSchedule(inputs.financing, financedCost, inputs.device.placedInServiceMonth),
+      disposalMonth
+    )
+    : undefined;
+  
+  // Disclose first-year expensing whenever Section 179 or bonus depreciation was taken
+  const totalCost = calculateAcquisitionCost(inputs.device) + calculateSalesTax(inputs.device, inputs.financing);
+  const accelerated = calculateAcceleratedDeduction(inputs.device, inputs.financing, totalCost);
+  const acceleratedDeduction = accelerated.section179 + accelerated.bonus > 0 ? accelerated : undefined;
+  
+  // Package sales, breakage and the deferred revenue still owed in sessions; membership growth
+  const patients = buildPatientSchedule(inputs, results.length);
+  const packages = inputs.pricing.packages.some(pkg => pkg.attachRate > 0)
+    ? summarizePackages(inputs.pricing, patients.packages)
+    : undefined;
+  const membership = inputs.pricing.membershipConversionPercent > 0
+    ? summarizeMembership(inputs.pricing, patients.memberships)
+    : undefined;
+  
+  // What each new patient costs to acquire and earns back
+  const marketing = summarizeMarketing(inputs, operatingResults, patients.packages);
+  
+  // Whether the plan and the breakeven volume physically fit in the clinic day
+  const capacity = summarizeCapacity(inputs, operatingResults, breakevenTreatmentsPerDay);
+  
+  // Who performs the treatments and what they cost
+  const staffing = summarizeStaffing(inputs, operatingResults);
+  
+  // Service costs and whether the financing outlasts warranty coverage
+  const service = summarizeService(
+    inputs,
+    operatingResults.length,
+    settleScheduleAtSale(
+      buildFinancingSchedule(inputs.financing, financedCost, inputs.device.placedInServiceMonth),
+      inputs.financing,
+      disposalMonth
+    )
+  );
+  
+  // Replacement parts and the lumpiest month for them
+  const parts = summarizeParts(inputs, operatingResults);
   
   return {
     monthlyPayment,
+    paymentFrequency: inputs.financing.paymentFrequency,
+    monthlyEquivalentPayment,
     monthlyRevenue: avgMonthlyRevenue,
     monthlyEBITDA: avgMonthlyEBITDA,
     breakevenTreatmentsPerDay,
     paybackMonths,
     npv,
+    realNpv,
     irr,
-    dscr
+    dscr,
+    promoComparison,
+    prepaymentAnalysis,
+    acceleratedDeduction,
+    taxYears: calculateTaxYears(results, inputs.device),
+    disposal,
+    packages,
+    membership,
+    marketing,
+    capacity,
+    staffing,
+    service,
+    parts,
+    treatmentProfitability: calculateTreatmentProfitability(inputs),
+    interestTaxShield: results.reduce((sum, r) => sum + r.interestTaxShield, 0)
+  };
+}
+
+// Contribution of each menu line at full volume, before packages and memberships
+export function calculateTreatmentProfitability(inputs: CalculatorInputs): TreatmentProfitability[] {
+  const { utilization, pricing, variableCosts } = inputs;
+  const shares = getLineShares(pricing.treatmentMenu);
+  const treatmentsPerDay = Math.min(utilization.treatmentsPerDay, getMaxTreatmentsPerDay(inputs));
+  const fullVolume = utilization.openDaysPerMonth * treatmentsPerDay * (1 - utilization.noShowRate / 100);
+  
+  return pricing.treatmentMenu.map((item, index) => {
+    const netPrice = calculateNetPricePerTreatment(
+      item.price,
+      pricing.discountPercent,
+      pricing.upsellAvgPerTx,
+      pricing.upsellAttachRate
+    );
+    // Revenue reserves and the wear on replacement parts are counted with the variable costs of each treatment
+    const variableCost = calculateVariableCostPerTreatment(
+      item.consumables,
+      variableCosts.disposables,
+      getProviderCostPerTreatment(inputs, netPrice, index),
+      item.treatmentTime,
+      variableCosts.roomTimeOverhead,
+      variableCosts.paymentProcessingPercent,
+      variableCosts.paymentProcessingFixed,
+      netPrice
+    ) + netPrice * getReserveRate(inputs.reserves) + getPartsRunRate(inputs, index).perTreatment;
+    const contribution = netPrice - variableCost;
+    const monthlyTreatments = fullVolume * shares[index];
+    
+    return {
+      name: item.name,
+      mixShare: shares[index] * 100,
+      netPrice,
+      variableCost,
+      contribution,
+      contributionPerHour: item.treatmentTime > 0 ? contribution * 60 / item.treatmentTime : 0,
+      monthlyTreatments,
+      monthlyContribution: monthlyTreatments * contribution
+    };
+  });
+}
+
+// First month in which cumulative cash turns non-negative
+function calculatePaybackMonths(results: MonthlyResults[]): number {
+  const paybackMonth = results.findIndex(r => r.cumulativeCash >= 0) + 1;
+  return paybackMonth > 0 ? paybackMonth : results.length;
+}
+
+// Net present value of the monthly cash flows
+function calculateNPV(results: MonthlyResults[], discountRate: number = 0.10): number {
+  return calculatePresentValue(results.map(r => r.cashFlow), discountRate);
+}
+
+function calculatePresentValue(cashFlows: number[], discountRate: number = 0.10): number {
+  return cashFlows.reduce((sum, cashFlow, index) => {
+    return sum + (cashFlow / Math.pow(1 + discountRate, index / 12));
+  }, 0);
+}
+
+// Re-run the model without prepayments to measure what paying early saves or costs
+function calculatePrepaymentAnalysis(
+  inputs: CalculatorInputs,
+  months: number,
+  npv: number,
+  paybackMonths: number
+): PrepaymentAnalysis {
+  const baselineInputs: CalculatorInputs = {
+    ...inputs,
+    financing: { ...inputs.financing, earlyPayoffMonth: 0, extraPrincipal: 0 }
+  };
+  const financedCost = calculateFinancedCost(inputs.device, inputs.financing);
+  const schedule = buildFinancingSchedule(inputs.financing, financedCost, inputs.device.placedInServiceMonth);
+  const baselineSchedule = buildFinancingSchedule(baselineInputs.financing, financedCost, inputs.device.placedInServiceMonth);
+  const baselineResults = calculateAllResults(baselineInputs, months);
+  const totalInterest = (periods: FinancingPeriod[]) => periods.reduce((sum, period) => sum + period.interest, 0);
+  
+  return {
+    payoffMonth: schedule.length,
+    interestSaved: totalInterest(baselineSchedule) - totalInterest(schedule),
+    penaltyCharged: schedule.reduce((sum, period) => sum + period.penalty, 0),
+    npvChange: npv - calculateNPV(baselineResults),
+    paybackChange: paybackMonths - calculatePaybackMonths(baselineResults)
   };
 }
 
@@ -420,22 +1069,52 @@ export const defaultInputs: CalculatorInputs = {
     extendedWarrantyCost: 2000,
     depreciationMethod: 'straight-line',
     depreciationLife: 5,
+    depreciationConvention: 'half-year',
+    decliningBalanceRate: 200,
+    placedInServiceMonth: 1,
     salvageValue: 15000,
     section179: false,
-    taxRate: 25
+    section179Limit: 2500000,
+    section179PhaseOutThreshold: 4000000,
+    otherEquipmentPurchases: 0,
+    bonusDepreciation: false,
+    bonusRates: DEFAULT_BONUS_RATES,
+    placedInServiceYear: new Date().getFullYear(),
+    entityType: 'pass-through',
+    federalTaxRate: 24,
+    stateTaxRate: 5,
+    stateConformity: true,
+    localTaxRate: 0,
+    taxLossTreatment: 'carryforward',
+    disposalMonth: 0,
+    resalePrice: 60000,
+    sellingCosts: 3000
   },
   financing: {
     purchaseMethod: 'loan',
+    lenderProgramId: '',
+    creditTier: 'A',
     downPayment: 30,
     downPaymentType: 'percent',
     apr: 5.5,
+    leaseRateType: 'apr',
+    moneyFactor: 0.0023,
+    leaseBuyout: false,
+    promoMonths: 12,
+    promoType: 'standard-apr',
+    promoPayoff: false,
     termMonths: 84,
     paymentFrequency: 'monthly',
+    skipMonths: [],
     balloonResidual: 0,
     balloonType: 'dollar',
     originationFees: 500,
+    financeFees: false,
     deferredMonths: 0,
+    deferralInterest: 'capitalize',
     prepaymentPenalty: 0,
+    earlyPayoffMonth: 0,
+    extraPrincipal: 0,
     includeSalesTax: true,
     salesTaxRate: 8.5
   },
@@ -445,36 +1124,108 @@ export const defaultInputs: CalculatorInputs = {
     utilizationRamp: [40, 60, 80, 90, 95, 100],
     noShowRate: 5,
     avgTreatmentTime: 30,
-    seasonality: [100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100]
+    seasonality: [100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100],
+    hoursPerDay: 9,
+    treatmentRooms: 2,
+    operators: 2,
+    turnoverMinutes: 10,
+    deviceAvailabilityPercent: 100
   },
   pricing: {
     listPricePerTreatment: 500,
+    treatmentMenu: [],
     discountPercent: 5,
     packages: [
       { sessions: 6, price: 2500, attachRate: 30 },
       { sessions: 12, price: 4500, attachRate: 20 }
     ],
-    membershipMRR: 300,
-    membershipPercent: 20,
+    packageBreakagePercent: 10,
+    membershipMRR: 150,
+    membershipConversionPercent: 15,
+    membershipChurnPercent: 5,
+    membershipIncludedTreatments: 0.5,
     upsellAvgPerTx: 100,
     upsellAttachRate: 30
   },
   variableCosts: {
     consumables: 15,
     disposables: 5,
-    clinicalTimeCost: 150,
     roomTimeOverhead: 25,
     paymentProcessingPercent: 2.9,
     paymentProcessingFixed: 0.30
   },
   fixedOpex: {
     marketingBudget: 2000,
-    staffSalaryAllocation: 1500,
     rentAllocation: 1200,
     insurance: 200,
     softwareEMR: 300,
-    maintenancePostWarranty: 300,
-    calibrationService: 150,
-    downtimeReserve: 3
+    calibrationService: 150
+  },
+  service: {
+    coverage: 'pay-as-you-go',
+    extendedWarrantyYears: 3,
+    maintenancePerMonth: 300,
+    escalationPercent: 5
+  },
+  lifecycle: {
+    parts: [
+      { name: 'Handpiece', cost: 3500, lifeTreatments: 3000, lifeMonths: 0, leadTimeMonths: 1, treatments: [] }
+    ]
+  },
+  reserves: {
+    downtimePercent: 3,
+    refundPercent: 1,
+    chargebackPercent: 0.5,
+    badDebtPercent: 0.5
+  },
+  staffing: {
+    providers: [
+      {
+        name: 'Medical Director',
+        role: 'md',
+        schedulePercent: 0,
+        treatments: [],
+        monthlySalary: 1500,
+        hourlyRate: 0,
+        commissionPercent: 0,
+        perTreatmentFee: 0,
+        bonusPercent: 0,
+        bonusThreshold: 0
+      },
+      {
+        name: 'Laser Nurse',
+        role: 'rn',
+        schedulePercent: 100,
+        treatments: [],
+        monthlySalary: 0,
+        hourlyRate: 150,
+        commissionPercent: 0,
+        perTreatmentFee: 0,
+        bonusPercent: 0,
+        bonusThreshold: 0
+      }
+    ]
+  },
+  marketing: {
+    volumeDriver: 'utilization',
+    costPerLead: 40,
+    organicLeadsPerMonth: 30,
+    consultRate: 50,
+    bookingRate: 60
+  },
+  escalation: {
+    anniversaryMonth: 1,
+    priceIncrease: 3,
+    consumablesInflation: 3,
+    laborInflation: 3.5,
+    rentEscalator: 3,
+    insuranceGrowth: 5,
+    generalInflation: 2.5
+  },
+  accounting: {
+    basis: 'accrual',
+    membershipBilling: 'monthly',
+    insuranceBilling: 'monthly',
+    inventoryOrderMonths: 1
   }
 };
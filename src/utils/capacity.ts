@@ -0,0 +1,87 @@
+// Clinic capacity - how many treatments fit in a day given hours, rooms, operators, turnover and device time
+
+import type { CalculatorInputs, MonthlyResults, UtilizationInputs } from './calculations';
+import { getTreatmentMix } from './treatmentMenu';
+
+// Treatments per day each resource allows on its own
+export interface CapacityLimits {
+  device: number;
+  rooms: number;
+  operators: number;
+}
+
+export type CapacityConstraint = keyof CapacityLimits;
+
+export interface CapacitySummary {
+  maxTreatmentsPerDay: number;
+  limitingFactor: CapacityConstraint;
+  plannedTreatmentsPerDay: number;
+  breakevenTreatmentsPerDay: number;
+  planExceedsCapacity: boolean;
+  breakevenExceedsCapacity: boolean;
+  averageUtilization: number;
+  peakUtilization: number;
+}
+
+export const CAPACITY_CONSTRAINT_LABELS: Record<CapacityConstraint, string> = {
+  device: 'device time',
+  rooms: 'treatment rooms',
+  operators: 'operators'
+};
+
+// Rooms and operators are tied up for the treatment plus turnover. With more than one room the device
+// moves on while the last room is turned over, so it only loses turnover time when there is one room.
+export function getCapacityLimits(utilization: UtilizationInputs, treatmentTime: number): CapacityLimits {
+  const minutesOpen = utilization.hoursPerDay * 60;
+  const slotMinutes = treatmentTime + utilization.turnoverMinutes;
+  const deviceMinutes = utilization.treatmentRooms > 1 ? treatmentTime : slotMinutes;
+  const perDay = (minutes: number, per: number) => (per > 0 ? Math.floor(minutes / per) : 0);
+
+  return {
+    device: perDay(minutesOpen * utilization.deviceAvailabilityPercent / 100, deviceMinutes),
+    rooms: utilization.treatmentRooms * perDay(minutesOpen, slotMinutes),
+    operators: utilization.operators * perDay(minutesOpen, slotMinutes)
+  };
+}
+
+export function getLimitingFactor(limits: CapacityLimits): CapacityConstraint {
+  return (Object.keys(limits) as CapacityConstraint[]).reduce((tightest, key) => (limits[key] < limits[tightest] ? key : tightest));
+}
+
+// Most treatments that can be booked in a day at a month's treatment mix; steady state without a month
+export function getMaxTreatmentsPerDay(inputs: CalculatorInputs, month?: number): number {
+  const limits = getCapacityLimits(inputs.utilization, getTreatmentMix(inputs, month).treatmentTime);
+  return limits[getLimitingFactor(limits)];
+}
+
+// Treatments the clinic could perform in a month if every slot were filled
+export function getMonthlyCapacity(inputs: CalculatorInputs, month: number): number {
+  return inputs.utilization.openDaysPerMonth * getMaxTreatmentsPerDay(inputs, month);
+}
+
+// Breakeven counts treatments performed, so it is held against the slots left after no-shows
+export function summarizeCapacity(
+  inputs: CalculatorInputs,
+  results: MonthlyResults[],
+  breakevenTreatmentsPerDay: number
+): CapacitySummary {
+  const limits = getCapacityLimits(inputs.utilization, getTreatmentMix(inputs).treatmentTime);
+  const limitingFactor = getLimitingFactor(limits);
+  const maxTreatmentsPerDay = limits[limitingFactor];
+  const operating = results.filter(r => r.treatmentCapacity > 0);
+  // Bookings in the busiest month of the season
+  const plannedTreatmentsPerDay = inputs.utilization.treatmentsPerDay * Math.max(...inputs.utilization.seasonality) / 100;
+
+  return {
+    maxTreatmentsPerDay,
+    limitingFactor,
+    plannedTreatmentsPerDay,
+    breakevenTreatmentsPerDay,
+    planExceedsCapacity: plannedTreatmentsPerDay > maxTreatmentsPerDay,
+    breakevenExceedsCapacity: breakevenTreatmentsPerDay > maxTreatmentsPerDay * (1 - inputs.utilization.noShowRate / 100),
+    averageUtilization: operating.length > 0
+      ? operating.reduce((sum, r) => sum + r.utilizationPercent, 0) / operating.length
+      : 0,
+    peakUtilization: Math.max(0, ...operating.map(r => r.utilizationPercent))
+  };
+}
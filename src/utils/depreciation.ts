@@ -0,0 +1,137 @@
+// Depreciation schedules - MACRS recovery classes and conventions, and straight-line with salvage
+
+import type { DeviceInputs } from './calculations';
+
+export interface DepreciationYear {
+  year: number;
+  months: number;
+  depreciation: number;
+  endingBookValue: number;
+}
+
+export interface DepreciationSchedule {
+  basis: number;
+  yearly: DepreciationYear[];
+  monthly: number[];
+}
+
+// Tax years follow the calendar, so the first one only runs from the placed-in-service month to December
+export function getMonthsInFirstTaxYear(placedInServiceMonth: number): number {
+  return 13 - placedInServiceMonth;
+}
+
+// Tax year (1-based) that a model month falls in
+export function getTaxYear(month: number, placedInServiceMonth: number): number {
+  return Math.floor((month + placedInServiceMonth - 2) / 12) + 1;
+}
+
+// Share of a full year's depreciation allowed in the first year under each convention
+function getFirstYearFraction(convention: DeviceInputs['depreciationConvention'], placedInServiceMonth: number): number {
+  if (convention === 'half-year') return 0.5;
+  const quarter = Math.ceil(placedInServiceMonth / 3);
+  return (12 - (quarter - 1) * 3 - 1.5) / 12;
+}
+
+// MACRS percentages of basis by tax year - declining balance, switching to straight-line when it is larger
+export function calculateMACRSRates(
+  recoveryPeriod: number,
+  decliningBalanceRate: DeviceInputs['decliningBalanceRate'],
+  convention: DeviceInputs['depreciationConvention'],
+  placedInServiceMonth: number
+): number[] {
+  const rate = decliningBalanceRate / 100 / recoveryPeriod;
+  const rates: number[] = [];
+  let remaining = 1;
+  let elapsed = 0;
+
+  while (remaining > 1e-9) {
+    const fraction = rates.length === 0 ? getFirstYearFraction(convention, placedInServiceMonth) : 1;
+    const remainingLife = recoveryPeriod - elapsed;
+    const amount = remainingLife <= fraction
+      ? remaining
+      : Math.min(remaining, Math.max(remaining * rate * fraction, remaining / remainingLife * fraction));
+
+    rates.push(amount);
+    remaining -= amount;
+    elapsed += fraction;
+  }
+
+  return rates;
+}
+
+// Monthly and tax-year depreciation for an asset; salvage only applies to straight-line
+export function buildDepreciationSchedule(
+  device: DeviceInputs,
+  basis: number,
+  salvageValue: number,
+  placedInServiceMonth: number = device.placedInServiceMonth
+): DepreciationSchedule {
+  const monthly: number[] = [];
+
+  if (device.depreciationMethod === 'straight-line') {
+    const monthlyAmount = Math.max(0, basis - salvageValue) / (device.depreciationLife * 12);
+    for (let month = 1; month <= device.depreciationLife * 12; month++) {
+      monthly.push(monthlyAmount);
+    }
+  } else {
+    const rates = calculateMACRSRates(
+      device.depreciationLife,
+      device.decliningBalanceRate,
+      device.depreciationConvention,
+      placedInServiceMonth
+    );
+    rates.forEach((rate, index) => {
+      const months = index === 0 ? getMonthsInFirstTaxYear(placedInServiceMonth) : 12;
+      for (let month = 0; month < months; month++) {
+        monthly.push(basis * rate / months);
+      }
+    });
+  }
+
+  const yearly: DepreciationYear[] = [];
+  let bookValue = basis;
+  monthly.forEach((amount, index) => {
+    const year = getTaxYear(index + 1, placedInServiceMonth);
+    if (yearly.length < year) {
+      yearly.push({ year, months: 0, depreciation: 0, endingBookValue: bookValue });
+    }
+    const entry = yearly[year - 1];
+    bookValue -= amount;
+    entry.months += 1;
+    entry.depreciation += amount;
+    entry.endingBookValue = Math.max(0, bookValue);
+  });
+
+  return { basis, yearly, monthly };
+}
+
+// Tax schedule - first-year expensing (Section 179 / bonus) across the first tax year,
+// then regular depreciation on whatever basis it leaves behind
+export function buildTaxDepreciationSchedule(
+  device: DeviceInputs,
+  basis: number,
+  salvageValue: number,
+  firstYearDeduction: number
+): DepreciationSchedule {
+  const remainingBasis = basis - firstYearDeduction;
+  const regular = buildDepreciationSchedule(device, remainingBasis, Math.min(salvageValue, remainingBasis));
+  const firstTaxYearMonths = getMonthsInFirstTaxYear(device.placedInServiceMonth);
+  const monthly = [...regular.monthly];
+  for (let month = 0; month < firstTaxYearMonths; month++) {
+    monthly[month] = (monthly[month] ?? 0) + firstYearDeduction / firstTaxYearMonths;
+  }
+
+  const yearly = regular.yearly.map(entry => ({ ...entry }));
+  if (yearly.length === 0 && firstYearDeduction > 0) {
+    yearly.push({ year: 1, months: firstTaxYearMonths, depreciation: 0, endingBookValue: 0 });
+  }
+  if (yearly.length > 0) {
+    yearly[0].depreciation += firstYearDeduction;
+  }
+
+  return { basis, yearly, monthly };
+}
+
+export function getMonthlyDepreciation(schedule: DepreciationSchedule, month: number): number {
+  return month >= 1 && month <= schedule.monthly.length ? schedule.monthly[month - 1] : 0;
+}
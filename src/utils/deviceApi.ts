@@ -6,6 +6,26 @@ export interface DeviceApiResponse {
   lastUpdated: string;
 }
 
+// One application on a multi-application platform
+export interface DeviceTreatment {
+  name: string;
+  price: number;
+  treatment_time: number;
+  consumables_per_treatment: number;
+  mix_percent: number;
+  ramp?: number[];
+}
+
+// A handpiece, tip or flashlamp that has to be replaced as it wears out
+export interface DeviceReplacementPart {
+  name: string;
+  cost: number;
+  life_treatments: number;
+  life_months: number;
+  lead_time_months: number;
+  treatments?: string[];
+}
+
 export interface Device {
   id: string;
   model_name: string;
@@ -16,6 +36,8 @@ export interface Device {
   typical_treatment_time: number;
   consumables_per_treatment: number;
   description: string;
+  treatment_menu?: DeviceTreatment[];
+  replacement_parts?: DeviceReplacementPart[];
   image_url?: string;
   mrp_url?: string;
   source_url?: string;
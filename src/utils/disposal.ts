@@ -0,0 +1,152 @@
+// Disposal of the device - resale proceeds, gain or loss vs book value, depreciation recapture and loan payoff
+
+import type { DeviceInputs, FinancingInputs } from './calculations';
+import { buildDepreciationSchedule, buildTaxDepreciationSchedule } from './depreciation';
+import { calculateResidual, getFinancingPeriod, hasLeaseBuyout, type FinancingPeriod } from './financing';
+import { calculateAcceleratedDeduction } from './section179';
+import { getCombinedTaxRate } from './taxes';
+
+export interface DisposalSummary {
+  month: number;
+  salePrice: number;
+  sellingCosts: number;
+  bookValue: number;
+  gainOnSale: number;
+  taxBasis: number;
+  taxGainOnSale: number;
+  depreciationRecapture: number;
+  taxOnSale: number;
+  loanPayoff: number;
+  prepaymentPenalty: number;
+  netProceeds: number;
+}
+
+export interface SaleGain {
+  amountRealized: number;
+  bookValue: number;
+  gainOnSale: number;
+  taxBasis: number;
+  taxGainOnSale: number;
+  stateTaxGainOnSale: number;
+  depreciationRecapture: number;
+}
+
+// Month the device is sold, or 0 when it is held - FMV lessees can only sell what they bought out
+export function getDisposalMonth(device: DeviceInputs, financing: FinancingInputs, months: number): number {
+  const month = device.disposalMonth;
+  if (month <= 0 || month > months) return 0;
+  if (financing.purchaseMethod === 'lease-fmv' && !(hasLeaseBuyout(financing) && month > financing.termMonths)) {
+    return 0;
+  }
+  return month;
+}
+
+// Pay off whatever is still owed out of the sale and end the schedule there
+export function settleScheduleAtSale(
+  schedule: FinancingPeriod[],
+  financing: FinancingInputs,
+  month: number
+): FinancingPeriod[] {
+  if (month <= 0 || month > schedule.length) return schedule;
+
+  const period = schedule[month - 1];
+  const penalty = financing.purchaseMethod === 'loan' ? period.balance * financing.prepaymentPenalty / 100 : 0;
+  return [
+    ...schedule.slice(0, month - 1),
+    {
+      ...period,
+      prepayment: period.prepayment + period.balance,
+      penalty: period.penalty + penalty,
+      balance: 0
+    }
+  ];
+}
+
+// Owned basis and the month ownership began - an FMV buyout is a new asset placed in service after the term
+function getOwnedAsset(device: DeviceInputs, financing: FinancingInputs, totalCost: number, financedCost: number) {
+  if (financing.purchaseMethod === 'lease-fmv') {
+    return {
+      basis: calculateResidual(financing, financedCost),
+      startMonth: financing.termMonths,
+      placedInServiceMonth: (device.placedInServiceMonth + financing.termMonths - 1) % 12 + 1,
+      firstYearDeduction: 0
+    };
+  }
+  const accelerated = calculateAcceleratedDeduction(device, financing, totalCost);
+  return {
+    basis: totalCost,
+    startMonth: 0,
+    placedInServiceMonth: device.placedInServiceMonth,
+    firstYearDeduction: accelerated.section179 + accelerated.bonus
+  };
+}
+
+// Gain or loss on the sale against both book value and the adjusted tax basis
+export function calculateSaleGain(
+  device: DeviceInputs,
+  financing: FinancingInputs,
+  totalCost: number,
+  financedCost: number,
+  month: number
+): SaleGain {
+  const asset = getOwnedAsset(device, financing, totalCost, financedCost);
+  const monthsOwned = month - asset.startMonth;
+  const salvage = Math.min(device.salvageValue, asset.basis);
+  const sumThrough = (monthly: number[]) => monthly.slice(0, monthsOwned).reduce((sum, amount) => sum + amount, 0);
+
+  const book = buildDepreciationSchedule(device, asset.basis, salvage, asset.placedInServiceMonth);
+  const tax = asset.firstYearDeduction > 0
+    ? buildTaxDepreciationSchedule(device, asset.basis, device.salvageValue, asset.firstYearDeduction)
+    : book;
+  const taxDepreciation = sumThrough(tax.monthly);
+  // States that decouple from Section 179 and bonus depreciate the regular schedule only
+  const stateTax = asset.firstYearDeduction > 0
+    ? buildTaxDepreciationSchedule(device, asset.basis, device.salvageValue, 0)
+    : book;
+
+  const amountRealized = device.resalePrice - device.sellingCosts;
+  const bookValue = asset.basis - sumThrough(book.monthly);
+  const taxBasis = asset.basis - taxDepreciation;
+  const taxGainOnSale = amountRealized - taxBasis;
+
+  return {
+    amountRealized,
+    bookValue,
+    gainOnSale: amountRealized - bookValue,
+    taxBasis,
+    taxGainOnSale,
+    stateTaxGainOnSale: amountRealized - (asset.basis - sumThrough(stateTax.monthly)),
+    // Section 1245 - gain up to the depreciation taken comes back as ordinary income
+    depreciationRecapture: Math.max(0, Math.min(taxGainOnSale, taxDepreciation))
+  };
+}
+
+export function calculateDisposal(
+  device: DeviceInputs,
+  financing: FinancingInputs,
+  totalCost: number,
+  financedCost: number,
+  unsettledSchedule: FinancingPeriod[],
+  month: number
+): DisposalSummary {
+  const gain = calculateSaleGain(device, financing, totalCost, financedCost, month);
+  // Recapture and any gain above it are both taxed at ordinary rates in this model
+  const taxOnSale = gain.taxGainOnSale * getCombinedTaxRate(device) / 100;
+  const loanPayoff = getFinancingPeriod(unsettledSchedule, month).balance;
+  const prepaymentPenalty = financing.purchaseMethod === 'loan' ? loanPayoff * financing.prepaymentPenalty / 100 : 0;
+
+  return {
+    month,
+    salePrice: device.resalePrice,
+    sellingCosts: device.sellingCosts,
+    bookValue: gain.bookValue,
+    gainOnSale: gain.gainOnSale,
+    taxBasis: gain.taxBasis,
+    taxGainOnSale: gain.taxGainOnSale,
+    depreciationRecapture: gain.depreciationRecapture,
+    taxOnSale,
+    loanPayoff,
+    prepaymentPenalty,
+    netProceeds: gain.amountRealized - loanPayoff - prepaymentPenalty - taxOnSale
+  };
+}
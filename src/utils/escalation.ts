@@ -0,0 +1,65 @@
+// Price escalation and cost inflation - annual steps on an anniversary month, and real vs nominal values
+
+import type { EscalationInputs, FixedOpex } from './calculations';
+
+// Multipliers on the month-1 inputs for a given month
+export interface EscalationFactors {
+  price: number;
+  consumables: number;
+  labor: number;
+  rent: number;
+  insurance: number;
+  general: number;
+}
+
+// Which escalator each fixed cost follows; anything not listed stays flat
+const FIXED_OPEX_ESCALATORS: Partial<Record<keyof FixedOpex, keyof EscalationFactors>> = {
+  marketingBudget: 'general',
+  rentAllocation: 'rent',
+  insurance: 'insurance',
+  softwareEMR: 'general',
+  calibrationService: 'general'
+};
+
+// Calendar month (1-12) of a model month
+export function getCalendarMonth(month: number, placedInServiceMonth: number): number {
+  return (placedInServiceMonth + month - 2) % 12 + 1;
+}
+
+// Anniversaries passed by a model month - the first step comes the first time the anniversary month
+// comes round after the device goes into service
+export function getEscalationSteps(escalation: EscalationInputs, month: number, placedInServiceMonth: number): number {
+  const monthsToFirstStep = (escalation.anniversaryMonth - placedInServiceMonth + 12) % 12 || 12;
+  if (month <= monthsToFirstStep) return 0;
+  return Math.floor((month - monthsToFirstStep - 1) / 12) + 1;
+}
+
+export function getEscalationFactors(
+  escalation: EscalationInputs,
+  month: number,
+  placedInServiceMonth: number
+): EscalationFactors {
+  const steps = getEscalationSteps(escalation, month, placedInServiceMonth);
+  const compound = (ratePercent: number) => Math.pow(1 + ratePercent / 100, steps);
+  return {
+    price: compound(escalation.priceIncrease),
+    consumables: compound(escalation.consumablesInflation),
+    labor: compound(escalation.laborInflation),
+    rent: compound(escalation.rentEscalator),
+    insurance: compound(escalation.insuranceGrowth),
+    general: compound(escalation.generalInflation)
+  };
+}
+
+// Monthly fixed costs after each line's escalator
+export function escalateFixedOpex(fixedOpex: FixedOpex, factors: EscalationFactors): number {
+  return (Object.keys(fixedOpex) as Array<keyof FixedOpex>).reduce((sum, key) => {
+    const escalator = FIXED_OPEX_ESCALATORS[key];
+    return sum + fixedOpex[key] * (escalator ? factors[escalator] : 1);
+  }, 0);
+}
+
+// Cash flows restated in today's dollars, deflating by general inflation month by month
+export function deflateCashFlows(cashFlows: number[], generalInflation: number): number[] {
+  return cashFlows.map((cashFlow, index) => cashFlow / Math.pow(1 + generalInflation / 100, index / 12));
+}
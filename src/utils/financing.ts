@@ -0,0 +1,450 @@
+// Financing utilities: loan amortization and lease payment schedules
+
+import type { FinancingInputs } from './calculations';
+import { getCalendarMonth } from './escalation';
+
+export interface FinancingPeriod {
+  month: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  residual: number;
+  fees: number;
+  prepayment: number;
+  penalty: number;
+  leaseExpense: number;
+  balance: number;
+}
+
+// Loan payment calculation (PMT function), optionally leaving a balloon/residual at maturity
+export function calculatePMT(apr: number, termMonths: number, principal: number, futureValue: number = 0): number {
+  const r = apr / 12;
+  if (r === 0) return (principal - futureValue) / termMonths;
+  const presentValueOfFutureValue = futureValue / Math.pow(1 + r, termMonths);
+  return (r * (principal - presentValueOfFutureValue)) / (1 - Math.pow(1 + r, -termMonths));
+}
+
+// Convert a lease money factor to its equivalent APR (both as decimals)
+export function moneyFactorToAPR(moneyFactor: number): number {
+  return moneyFactor * 24;
+}
+
+export function isLease(purchaseMethod: FinancingInputs['purchaseMethod']): boolean {
+  return purchaseMethod === 'lease-fmv' || purchaseMethod === 'lease-capital';
+}
+
+// Annual financing rate as a decimal, from either the APR or the lease money factor
+export function getFinancingRate(financing: FinancingInputs): number {
+  if (isLease(financing.purchaseMethod) && financing.leaseRateType === 'money-factor') {
+    return moneyFactorToAPR(financing.moneyFactor);
+  }
+  return financing.apr / 100;
+}
+
+export function calculateDownPayment(financing: FinancingInputs, acquisitionCost: number): number {
+  return financing.downPaymentType === 'percent'
+    ? acquisitionCost * financing.downPayment / 100
+    : financing.downPayment;
+}
+
+export function calculateResidual(financing: FinancingInputs, acquisitionCost: number): number {
+  return financing.balloonType === 'percent'
+    ? acquisitionCost * financing.balloonResidual / 100
+    : financing.balloonResidual;
+}
+
+// Principal financed: acquisition cost less down payment, plus any fees rolled into the loan
+export function calculateAmountFinanced(financing: FinancingInputs, acquisitionCost: number): number {
+  const financedFees = financing.financeFees ? financing.originationFees : 0;
+  return acquisitionCost - calculateDownPayment(financing, acquisitionCost) + financedFees;
+}
+
+// Origination/doc fees paid in cash at closing rather than financed
+export function calculateUpfrontFees(financing: FinancingInputs): number {
+  if (financing.purchaseMethod === 'cash' || financing.financeFees) return 0;
+  return financing.originationFees;
+}
+
+// No-pay deferral months at the start of a loan, leaving at least one amortizing payment
+function getDeferredMonths(financing: FinancingInputs): number {
+  if (financing.purchaseMethod !== 'loan') return 0;
+  return Math.max(0, Math.min(financing.deferredMonths, financing.termMonths - 1));
+}
+
+const MONTHS_PER_PAYMENT: Record<FinancingInputs['paymentFrequency'], number> = {
+  'monthly': 1,
+  'quarterly': 3,
+  'semi-annual': 6,
+  'annual': 12
+};
+
+// Whether a payment falls in this month with the given skip months, honoring frequency and deferral.
+// Skip months are calendar months, counted from the month the device is placed in service.
+function isScheduledMonth(financing: FinancingInputs, month: number, placedInServiceMonth: number, skipMonths: number[]): boolean {
+  const deferredMonths = getDeferredMonths(financing);
+  if (month <= deferredMonths || month > financing.termMonths) return false;
+  if (month === financing.termMonths) return true;
+
+  if (skipMonths.includes(getCalendarMonth(month, placedInServiceMonth))) return false;
+  return (month - deferredMonths) % MONTHS_PER_PAYMENT[financing.paymentFrequency] === 0;
+}
+
+// A skip list has to leave at least one payment before the final one at maturity
+export function isValidSkipList(financing: FinancingInputs, skipMonths: number[], placedInServiceMonth: number): boolean {
+  if (skipMonths.length === 0) return true;
+  const firstMonth = getDeferredMonths(financing) + 1;
+  if (firstMonth >= financing.termMonths) return true;
+  for (let month = firstMonth; month < financing.termMonths; month++) {
+    if (isScheduledMonth(financing, month, placedInServiceMonth, skipMonths)) return true;
+  }
+  return false;
+}
+
+// Whether a scheduled payment falls in this month - a skip list that leaves no payment before maturity is rejected
+export function isPaymentMonth(financing: FinancingInputs, month: number, placedInServiceMonth: number): boolean {
+  const skipMonths = isValidSkipList(financing, financing.skipMonths, placedInServiceMonth) ? financing.skipMonths : [];
+  return isScheduledMonth(financing, month, placedInServiceMonth, skipMonths);
+}
+
+const PAYMENT_LABELS: Record<FinancingInputs['paymentFrequency'], string> = {
+  'monthly': 'Monthly Payment',
+  'quarterly': 'Quarterly Payment',
+  'semi-annual': 'Semi-Annual Payment',
+  'annual': 'Annual Payment'
+};
+
+export function getPaymentLabel(paymentFrequency: FinancingInputs['paymentFrequency']): string {
+  return PAYMENT_LABELS[paymentFrequency];
+}
+
+// Scheduled payment months from one month to another, inclusive
+function getPaymentMonths(financing: FinancingInputs, fromMonth: number, toMonth: number, placedInServiceMonth: number): number[] {
+  const months: number[] = [];
+  for (let month = fromMonth; month <= toMonth; month++) {
+    if (isPaymentMonth(financing, month, placedInServiceMonth)) months.push(month);
+  }
+  return months;
+}
+
+// Level payment that amortizes a balance to a future value when payments only land in some months.
+// Interest accrues monthly, so unpaid interest in off months compounds into the balance.
+function calculateLevelPayment(
+  monthlyRate: number,
+  balance: number,
+  startMonth: number,
+  endMonth: number,
+  paymentMonths: number[],
+  futureValue: number
+): number {
+  const discount = (month: number) => Math.pow(1 + monthlyRate, -(month - startMonth));
+  const annuityFactor = paymentMonths.reduce((sum, month) => sum + discount(month), 0);
+  return (balance - futureValue * discount(endMonth)) / annuityFactor;
+}
+
+// Early payoff and extra principal apply to term loans
+export function allowsPrepayment(financing: FinancingInputs): boolean {
+  return financing.purchaseMethod === 'loan' &&
+    (financing.earlyPayoffMonth > 0 || financing.extraPrincipal > 0);
+}
+
+// Whether the residual is paid at lease end (capital leases always transfer ownership)
+export function hasLeaseBuyout(financing: FinancingInputs): boolean {
+  return financing.purchaseMethod === 'lease-capital' ||
+    (financing.purchaseMethod === 'lease-fmv' && financing.leaseBuyout);
+}
+
+// Regular periodic payment for the selected purchase method
+export function calculateFinancingPayment(financing: FinancingInputs, acquisitionCost: number, placedInServiceMonth: number): number {
+  const amountFinanced = calculateAmountFinanced(financing, acquisitionCost);
+  const rate = getFinancingRate(financing);
+
+  if (financing.purchaseMethod === 'loan' || isLease(financing.purchaseMethod)) {
+    // Amortizing payment after any deferral, down to the balloon/residual at maturity
+    const deferredMonths = getDeferredMonths(financing);
+    const balanceAfterDeferral = financing.deferralInterest === 'capitalize'
+      ? amountFinanced * Math.pow(1 + rate / 12, deferredMonths)
+      : amountFinanced;
+    const residual = calculateResidual(financing, acquisitionCost);
+    const paymentMonths = getPaymentMonths(financing, deferredMonths + 1, financing.termMonths, placedInServiceMonth);
+    return calculateLevelPayment(rate / 12, balanceAfterDeferral, deferredMonths, financing.termMonths, paymentMonths, residual);
+  }
+
+  if (financing.purchaseMethod === 'promo-0') {
+    // Interest-free payments - sized to clear the balance inside the promo window when paying it off,
+    // otherwise the minimum spread over the full term
+    const promoMonths = Math.min(financing.promoMonths, financing.termMonths);
+    const paymentCount = getPaymentMonths(
+      financing,
+      1,
+      financing.promoPayoff ? promoMonths : financing.termMonths,
+      placedInServiceMonth
+    ).length;
+    return paymentCount > 0 ? amountFinanced / paymentCount : 0;
+  }
+
+  return 0;
+}
+
+// Average payment per month, for comparing plans with different payment frequencies - the payments
+// actually scheduled, spread over the months from the end of any deferral to the last payment
+export function calculateMonthlyEquivalentPayment(financing: FinancingInputs, acquisitionCost: number, placedInServiceMonth: number): number {
+  const repayment = buildFinancingSchedule(financing, acquisitionCost, placedInServiceMonth).slice(getDeferredMonths(financing));
+  if (repayment.length === 0) return 0;
+  return repayment.reduce((sum, period) => sum + period.payment, 0) / repayment.length;
+}
+
+// 0% promo: interest-free for the promo window, then the remaining balance re-prices at the APR over the
+// payments left. With deferred interest, interest accrued during the window is charged back if a balance remains.
+function buildPromoSchedule(financing: FinancingInputs, acquisitionCost: number, placedInServiceMonth: number): FinancingPeriod[] {
+  const schedule: FinancingPeriod[] = [];
+  const term = financing.termMonths;
+  const promoMonths = Math.min(financing.promoMonths, term);
+  const r = financing.apr / 100 / 12;
+  const upfrontFees = calculateUpfrontFees(financing);
+  let balance = calculateAmountFinanced(financing, acquisitionCost);
+  let payment = calculateFinancingPayment(financing, acquisitionCost, placedInServiceMonth);
+  let deferredInterest = 0;
+  let accruedInterest = 0;
+
+  for (let month = 1; month <= term; month++) {
+    let interest = 0;
+    let chargedBack = 0;
+
+    if (month <= promoMonths) {
+      deferredInterest += balance * r;
+    } else {
+      if (month === promoMonths + 1) {
+        if (financing.promoType === 'deferred-interest' && balance > 0.005) {
+          chargedBack = deferredInterest;
+          balance += chargedBack;
+          accruedInterest += chargedBack;
+        }
+        payment = calculateLevelPayment(r, balance, promoMonths, term, getPaymentMonths(financing, month, term, placedInServiceMonth), 0);
+      }
+      // Interest accrues monthly and is settled by the next scheduled payment
+      interest = balance * r;
+      balance += interest;
+      accruedInterest += interest;
+    }
+
+    // Payments settle interest (the charged-back interest included) before principal
+    const paymentDue = isPaymentMonth(financing, month, placedInServiceMonth) ? Math.min(payment, balance) : 0;
+    const interestPaid = Math.min(paymentDue, accruedInterest);
+    const principal = paymentDue - interestPaid;
+    accruedInterest -= interestPaid;
+    balance = Math.max(0, balance - paymentDue);
+
+    schedule.push({
+      month,
+      payment: paymentDue,
+      interest: interest + chargedBack,
+      principal,
+      residual: 0,
+      fees: month === 1 ? upfrontFees : 0,
+      prepayment: 0,
+      penalty: 0,
+      leaseExpense: 0,
+      balance: month === term ? 0 : balance
+    });
+  }
+
+  return schedule;
+}
+
+// Build the month-by-month payment schedule for the financing structure
+export function buildFinancingSchedule(
+  financing: FinancingInputs,
+  acquisitionCost: number,
+  placedInServiceMonth: number
+): FinancingPeriod[] {
+  const schedule: FinancingPeriod[] = [];
+  if (financing.purchaseMethod === 'promo-0') {
+    return buildPromoSchedule(financing, acquisitionCost, placedInServiceMonth);
+  }
+  if (financing.purchaseMethod !== 'loan' && !isLease(financing.purchaseMethod)) {
+    return schedule;
+  }
+
+  const downPayment = calculateDownPayment(financing, acquisitionCost);
+  const residual = calculateResidual(financing, acquisitionCost);
+  const upfrontFees = calculateUpfrontFees(financing);
+  const deferredMonths = getDeferredMonths(financing);
+  const payment = calculateFinancingPayment(financing, acquisitionCost, placedInServiceMonth);
+  const r = getFinancingRate(financing) / 12;
+  const term = financing.termMonths;
+  let balance = calculateAmountFinanced(financing, acquisitionCost);
+
+  let paymentCount = 0;
+  for (let month = 1; month <= term; month++) {
+    if (isPaymentMonth(financing, month, placedInServiceMonth)) paymentCount++;
+  }
+  let accruedInterest = 0;
+
+  for (let month = 1; month <= term; month++) {
+    const fees = month === 1 ? upfrontFees : 0;
+    let paymentDue = isPaymentMonth(financing, month, placedInServiceMonth) ? payment : 0;
+    let residualPaid = month === term && (financing.purchaseMethod === 'loan' || hasLeaseBuyout(financing))
+      ? residual
+      : 0;
+
+    if (financing.purchaseMethod === 'lease-fmv') {
+      // Operating lease: straight-line lease cost, the down payment is prepaid rent
+      schedule.push({
+        month,
+        payment: paymentDue,
+        interest: 0,
+        principal: 0,
+        residual: residualPaid,
+        fees,
+        prepayment: 0,
+        penalty: 0,
+        leaseExpense: (payment * paymentCount + downPayment) / term,
+        balance: 0
+      });
+      continue;
+    }
+
+    const interest = balance * r;
+
+    if (month <= deferredMonths) {
+      // No-pay deferral: interest is either capitalized into the balance or paid interest-only
+      // Capitalized interest is still interest - the payments after the deferral settle it before principal
+      const capitalize = financing.deferralInterest === 'capitalize';
+      if (capitalize) {
+        balance += interest;
+        accruedInterest += interest;
+      }
+      schedule.push({
+        month,
+        payment: capitalize ? 0 : interest,
+        interest,
+        principal: 0,
+        residual: 0,
+        fees,
+        prepayment: 0,
+        penalty: 0,
+        leaseExpense: 0,
+        balance
+      });
+      continue;
+    }
+
+    // Interest accrues monthly and is settled by the next scheduled payment
+    balance += interest;
+    accruedInterest += interest;
+    paymentDue = Math.min(paymentDue, balance);
+    const interestPaid = Math.min(paymentDue, accruedInterest);
+    const principal = paymentDue - interestPaid;
+    accruedInterest -= interestPaid;
+    balance = Math.max(0, balance - paymentDue);
+    residualPaid = Math.min(residualPaid, balance);
+    balance -= residualPaid;
+
+    // Extra principal or a full early payoff, with any prepayment penalty on the amount prepaid
+    let prepayment = 0;
+    if (allowsPrepayment(financing) && month < term && balance > 0.005) {
+      prepayment = month === financing.earlyPayoffMonth ? balance : Math.min(financing.extraPrincipal, balance);
+      balance -= prepayment;
+    }
+
+    schedule.push({
+      month,
+      payment: paymentDue,
+      interest,
+      principal,
+      residual: residualPaid,
+      fees,
+      prepayment,
+      penalty: prepayment * financing.prepaymentPenalty / 100,
+      leaseExpense: 0,
+      balance: month === term ? 0 : balance
+    });
+
+    if (balance <= 0.005) break;
+  }
+
+  return schedule;
+}
+
+// Look up a month in the schedule, returning an empty period once the term has ended
+export function getFinancingPeriod(schedule: FinancingPeriod[], month: number): FinancingPeriod {
+  return schedule[month - 1] ?? {
+    month,
+    payment: 0,
+    interest: 0,
+    principal: 0,
+    residual: 0,
+    fees: 0,
+    prepayment: 0,
+    penalty: 0,
+    leaseExpense: 0,
+    balance: 0
+  };
+}
+
+// Interest accrued during the promo window that is charged back when a balance remains
+function calculateDeferredInterest(financing: FinancingInputs, schedule: FinancingPeriod[], principal: number): number {
+  const promoMonths = Math.min(financing.promoMonths, financing.termMonths);
+  if (financing.promoType !== 'deferred-interest' || promoMonths === 0 || promoMonths === financing.termMonths) {
+    return 0;
+  }
+  if (schedule[promoMonths - 1].balance <= 0.005) return 0;
+
+  const r = financing.apr / 100 / 12;
+  return schedule.slice(0, promoMonths).reduce((sum, _period, index) => {
+    const openingBalance = index === 0 ? principal : schedule[index - 1].balance;
+    return sum + openingBalance * r;
+  }, 0);
+}
+
+export interface PromoComparison {
+  promoPayment: number;
+  postPromoPayment: number;
+  deferredInterest: number;
+  promoTotalPaid: number;
+  standardPayment: number;
+  standardTotalPaid: number;
+  savings: number;
+}
+
+// Compare a 0% promo against a standard loan at the same APR, term and down payment
+export function calculatePromoComparison(
+  financing: FinancingInputs,
+  acquisitionCost: number,
+  placedInServiceMonth: number
+): PromoComparison {
+  const promoSchedule = buildPromoSchedule(financing, acquisitionCost, placedInServiceMonth);
+  // A plain amortizing loan - none of the user's promo, skip or prepayment settings carry over
+  const standardFinancing: FinancingInputs = {
+    ...financing,
+    purchaseMethod: 'loan',
+    promoMonths: 0,
+    promoType: 'standard-apr',
+    promoPayoff: false,
+    skipMonths: [],
+    balloonResidual: 0,
+    deferredMonths: 0,
+    prepaymentPenalty: 0,
+    earlyPayoffMonth: 0,
+    extraPrincipal: 0
+  };
+  const standardSchedule = buildFinancingSchedule(standardFinancing, acquisitionCost, placedInServiceMonth);
+  const promoMonths = Math.min(financing.promoMonths, financing.termMonths);
+
+  const firstPayment = (schedule: FinancingPeriod[]) => schedule.find(period => period.payment > 0)?.payment ?? 0;
+  const totalPaid = (schedule: FinancingPeriod[]) =>
+    schedule.reduce((sum, period) => sum + period.payment + period.residual + period.fees, 0);
+  const promoTotalPaid = totalPaid(promoSchedule);
+  const standardTotalPaid = totalPaid(standardSchedule);
+  const principal = calculateAmountFinanced(financing, acquisitionCost);
+
+  return {
+    promoPayment: firstPayment(promoSchedule),
+    postPromoPayment: firstPayment(promoSchedule.slice(promoMonths)),
+    deferredInterest: calculateDeferredInterest(financing, promoSchedule, principal),
+    standardPayment: firstPayment(standardSchedule),
+    promoTotalPaid,
+    standardTotalPaid,
+    savings: standardTotalPaid - promoTotalPaid
+  };
+}
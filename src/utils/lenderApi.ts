@@ -0,0 +1,134 @@
+// Lender rate-card catalog - finance providers, credit tiers and programs
+
+import type { CalculatorInputs, FinancingInputs } from './calculations';
+import { calculateAllResults, calculateFinancedCost, calculateKPIs } from './calculations';
+import { buildAmortizationSchedule } from './amortization';
+import { calculateDownPayment } from './financing';
+
+export interface CreditTier {
+  id: string;
+  name: string;
+}
+
+export interface LenderProgram {
+  id: string;
+  name: string;
+  purchaseMethod: Exclude<FinancingInputs['purchaseMethod'], 'cash'>;
+  termMonths: number;
+  aprByTier: Record<string, number>;
+  minDownPaymentPercent: number;
+  originationFees: number;
+  residualPercent?: number;
+  deferredMonths?: number;
+  promoMonths?: number;
+  promoType?: FinancingInputs['promoType'];
+}
+
+export interface Lender {
+  id: string;
+  name: string;
+  programs: LenderProgram[];
+}
+
+export interface LenderCatalog {
+  creditTiers: CreditTier[];
+  lenders: Lender[];
+}
+
+export interface LenderQuote {
+  lender: Lender;
+  program: LenderProgram;
+  apr: number;
+  monthlyPayment: number;
+  totalCost: number;
+  npv: number;
+}
+
+// Rate cards are kept in local JSON so admins can edit programs without a code change
+export const fetchLenderCatalog = async (): Promise<LenderCatalog> => {
+  try {
+    const catalog = await import('../data/lenders.json');
+    return catalog.default as LenderCatalog;
+  } catch (error) {
+    console.error('Error loading lender catalog:', error);
+    return { creditTiers: [], lenders: [] };
+  }
+};
+
+// A program is offered to a credit tier only when its rate card lists an APR for that tier
+export function isProgramEligible(program: LenderProgram, creditTier: string): boolean {
+  return program.aprByTier[creditTier] !== undefined;
+}
+
+export function findLenderProgram(
+  catalog: LenderCatalog,
+  programId: string
+): { lender: Lender; program: LenderProgram } | null {
+  for (const lender of catalog.lenders) {
+    const program = lender.programs.find(p => p.id === programId);
+    if (program) return { lender, program };
+  }
+  return null;
+}
+
+// Financing inputs with a program's terms applied - the down payment is raised to the program minimum if needed
+export function applyLenderProgram(
+  inputs: CalculatorInputs,
+  program: LenderProgram,
+  creditTier: string
+): FinancingInputs {
+  const financing = inputs.financing;
+  const financedCost = calculateFinancedCost(inputs.device, financing);
+  const downPaymentPercent = financedCost > 0
+    ? calculateDownPayment(financing, financedCost) / financedCost * 100
+    : 0;
+  const meetsMinimumDown = downPaymentPercent >= program.minDownPaymentPercent;
+
+  return {
+    ...financing,
+    purchaseMethod: program.purchaseMethod,
+    apr: program.aprByTier[creditTier] ?? financing.apr,
+    leaseRateType: 'apr',
+    termMonths: program.termMonths,
+    originationFees: program.originationFees,
+    downPayment: meetsMinimumDown ? financing.downPayment : program.minDownPaymentPercent,
+    downPaymentType: meetsMinimumDown ? financing.downPaymentType : 'percent',
+    balloonResidual: program.residualPercent ?? 0,
+    balloonType: 'percent',
+    deferredMonths: program.deferredMonths ?? 0,
+    promoMonths: program.promoMonths ?? financing.promoMonths,
+    promoType: program.promoType ?? financing.promoType,
+    creditTier,
+    lenderProgramId: program.id
+  };
+}
+
+// Quote every eligible program against the current practice inputs
+export function rankLenderPrograms(inputs: CalculatorInputs, catalog: LenderCatalog): LenderQuote[] {
+  const creditTier = inputs.financing.creditTier;
+  const quotes: LenderQuote[] = [];
+
+  catalog.lenders.forEach(lender => {
+    lender.programs
+      .filter(program => isProgramEligible(program, creditTier))
+      .forEach(program => {
+        const financing = applyLenderProgram(inputs, program, creditTier);
+        const programInputs = { ...inputs, financing };
+        const results = calculateAllResults(programInputs, 60);
+        const kpis = calculateKPIs(results, programInputs);
+        const schedule = buildAmortizationSchedule(programInputs);
+        const downPayment = calculateDownPayment(financing, calculateFinancedCost(inputs.device, financing));
+
+        quotes.push({
+          lender,
+          program,
+          apr: financing.apr,
+          monthlyPayment: kpis.monthlyEquivalentPayment,
+          totalCost: downPayment + schedule.totalPayments,
+          npv: kpis.npv
+        });
+      });
+  });
+
+  return quotes.sort((a, b) => a.monthlyPayment - b.monthlyPayment);
+}
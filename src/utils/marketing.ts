@@ -0,0 +1,79 @@
+// Marketing funnel - ad spend buys leads, leads become consults, consults book, bookings show up as new patients
+
+import type { CalculatorInputs, MarketingInputs, MonthlyResults } from './calculations';
+import type { PackageMonth } from './packages';
+import { getCalendarMonth, getEscalationFactors } from './escalation';
+
+export interface FunnelMonth {
+  month: number;
+  spend: number;
+  leads: number;
+  consults: number;
+  bookings: number;
+  newPatients: number;
+}
+
+export interface MarketingSummary {
+  monthlySpend: number;
+  leadsPerMonth: number;
+  newPatientsPerMonth: number;
+  costPerNewPatient: number;
+  grossProfitPerNewPatient: number;
+  capacityLimitedMonths: number;
+}
+
+export const VOLUME_DRIVERS: Array<{ value: MarketingInputs['volumeDriver']; label: string }> = [
+  { value: 'utilization', label: 'Utilization ramp (capacity)' },
+  { value: 'funnel', label: 'Marketing funnel (demand)' }
+];
+
+// The marketing budget goes up with general inflation like the other overheads
+export function getMarketingSpend(inputs: CalculatorInputs, month: number): number {
+  const factors = getEscalationFactors(inputs.escalation, month, inputs.device.placedInServiceMonth);
+  return inputs.fixedOpex.marketingBudget * factors.general;
+}
+
+// Leads follow the seasonality curve; no-shows are lost between booking and the first treatment
+export function getFunnelMonth(inputs: CalculatorInputs, month: number): FunnelMonth {
+  const { marketing, utilization } = inputs;
+  const spend = getMarketingSpend(inputs, month);
+  const seasonality = utilization.seasonality[getCalendarMonth(month, inputs.device.placedInServiceMonth) - 1] / 100;
+  const paidLeads = marketing.costPerLead > 0 ? spend / marketing.costPerLead : 0;
+  const leads = (paidLeads + marketing.organicLeadsPerMonth) * seasonality;
+  const consults = leads * marketing.consultRate / 100;
+  const bookings = consults * marketing.bookingRate / 100;
+
+  return {
+    month,
+    spend,
+    leads,
+    consults,
+    bookings,
+    newPatients: bookings * (1 - utilization.noShowRate / 100)
+  };
+}
+
+// Acquisition cost and what a new patient is worth over the months in service. Leads and capacity-limited
+// months only apply when the funnel drives volume - those are months where demand was turned away.
+export function summarizeMarketing(
+  inputs: CalculatorInputs,
+  results: MonthlyResults[],
+  packages: PackageMonth[]
+): MarketingSummary {
+  const months = packages.length;
+  const newPatients = packages.reduce((sum, m) => sum + m.newPatients, 0);
+  const spend = packages.reduce((sum, m) => sum + getMarketingSpend(inputs, m.month), 0);
+  const grossProfit = results.slice(0, months).reduce((sum, r) => sum + r.grossProfit, 0);
+  const funnel = inputs.marketing.volumeDriver === 'funnel'
+    ? packages.map(m => getFunnelMonth(inputs, m.month))
+    : [];
+
+  return {
+    monthlySpend: months > 0 ? spend / months : 0,
+    leadsPerMonth: months > 0 ? funnel.reduce((sum, m) => sum + m.leads, 0) / months : 0,
+    newPatientsPerMonth: months > 0 ? newPatients / months : 0,
+    costPerNewPatient: newPatients > 0 ? spend / newPatients : 0,
+    grossProfitPerNewPatient: newPatients > 0 ? grossProfit / newPatients : 0,
+    capacityLimitedMonths: funnel.filter((m, index) => m.newPatients > packages[index].newPatients + 0.01).length
+  };
+}
@@ -0,0 +1,64 @@
+// Marketing spend what-ifs - the model re-run with the monthly budget raised or cut
+
+import type { CalculatorInputs, MonthlyResults } from './calculations';
+import { calculateAllResults, calculateKPIs } from './calculations';
+
+export interface SpendScenario {
+  change: number;
+  monthlySpend: number;
+  newPatientsPerMonth: number;
+  treatmentsPerMonth: number;
+  monthlyEBITDA: number;
+  npv: number;
+  npvChange: number;
+  paybackMonths: number | null;
+}
+
+export const SPEND_CHANGES = [-2000, -1000, 0, 1000, 2000];
+
+// Month from which the extra EBITDA from added spend has covered the spend itself for good - early
+// months can pay back and then slip once the schedule fills. Null if it is behind at the end.
+function calculateSpendPayback(results: MonthlyResults[], baseline: MonthlyResults[]): number | null {
+  let cumulative = 0;
+  let paybackMonth: number | null = null;
+  results.forEach((result, index) => {
+    cumulative += result.ebitda - baseline[index].ebitda;
+    if (cumulative < 0) {
+      paybackMonth = null;
+    } else if (paybackMonth === null) {
+      paybackMonth = index + 1;
+    }
+  });
+  return paybackMonth;
+}
+
+export function compareMarketingSpend(
+  inputs: CalculatorInputs,
+  months: number = 60,
+  changes: number[] = SPEND_CHANGES
+): SpendScenario[] {
+  const baseline = calculateAllResults(inputs, months);
+  const baselineNpv = calculateKPIs(baseline, inputs).npv;
+
+  return changes
+    .filter(change => inputs.fixedOpex.marketingBudget + change >= 0)
+    .map(change => {
+      const scenarioInputs: CalculatorInputs = {
+        ...inputs,
+        fixedOpex: { ...inputs.fixedOpex, marketingBudget: inputs.fixedOpex.marketingBudget + change }
+      };
+      const results = change === 0 ? baseline : calculateAllResults(scenarioInputs, months);
+      const kpis = calculateKPIs(results, scenarioInputs);
+
+      return {
+        change,
+        monthlySpend: scenarioInputs.fixedOpex.marketingBudget,
+        newPatientsPerMonth: kpis.marketing.newPatientsPerMonth,
+        treatmentsPerMonth: results.reduce((sum, r) => sum + r.treatments, 0) / results.length,
+        monthlyEBITDA: kpis.monthlyEBITDA,
+        npv: kpis.npv,
+        npvChange: kpis.npv - baselineNpv,
+        paybackMonths: change > 0 ? calculateSpendPayback(results, baseline) : null
+      };
+    });
+}
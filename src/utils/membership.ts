@@ -0,0 +1,106 @@
+// Membership cohorts - patients who join, monthly churn, dues and the treatments included in them
+
+import type { AccountingInputs, PricingInputs } from './calculations';
+
+export interface MembershipMonth {
+  month: number;
+  newMembers: number;
+  cancellations: number;
+  members: number;
+  memberSessions: number;
+  membershipRevenue: number;
+  membershipCash: number;
+}
+
+export interface MembershipSummary {
+  endingMembers: number;
+  peakMembers: number;
+  endingMRR: number;
+  membershipRevenue: number;
+}
+
+function getRetention(pricing: PricingInputs): number {
+  return 1 - Math.min(Math.max(pricing.membershipChurnPercent, 0), 100) / 100;
+}
+
+// Members still enrolled `age` months after a cohort joined - cancellations take effect at month end
+function cohortSize(pricing: PricingInputs, joined: number, age: number): number {
+  return joined * Math.pow(getRetention(pricing), age);
+}
+
+// Members carried into a month from everyone who joined before it
+export function getMembersAtStart(pricing: PricingInputs, newPatients: number[], month: number): number {
+  const conversion = pricing.membershipConversionPercent / 100;
+  return newPatients
+    .slice(0, month - 1)
+    .reduce((sum, patients, index) => sum + cohortSize(pricing, patients * conversion, month - (index + 1)), 0);
+}
+
+// Visits members have already booked in a month, before any new patient is seen
+export function getMemberSessions(pricing: PricingInputs, newPatients: number[], month: number): number {
+  return getMembersAtStart(pricing, newPatients, month) * pricing.membershipIncludedTreatments;
+}
+
+// Month by month membership from the new patients seen each month. Annual billing collects a year of
+// dues from each cohort when it joins and on every anniversary, up to the last month in service.
+export function buildMembershipSchedule(
+  pricing: PricingInputs,
+  newPatients: number[],
+  billing: AccountingInputs['membershipBilling']
+): MembershipMonth[] {
+  const conversion = pricing.membershipConversionPercent / 100;
+  const lastMonth = newPatients.length;
+
+  return newPatients.map((patients, index) => {
+    const month = index + 1;
+    const startMembers = getMembersAtStart(pricing, newPatients, month);
+    const newMembers = patients * conversion;
+    const enrolled = startMembers + newMembers;
+    const members = enrolled * getRetention(pricing);
+    const membershipRevenue = enrolled * pricing.membershipMRR;
+
+    let membershipCash = membershipRevenue;
+    if (billing === 'annual') {
+      membershipCash = 0;
+      newPatients.slice(0, month).forEach((cohortPatients, cohortIndex) => {
+        const age = month - (cohortIndex + 1);
+        if (age % 12 !== 0) return;
+        for (let covered = age; covered < age + 12 && cohortIndex + 1 + covered <= lastMonth; covered++) {
+          membershipCash += cohortSize(pricing, cohortPatients * conversion, covered) * pricing.membershipMRR;
+        }
+      });
+    }
+
+    return {
+      month,
+      newMembers,
+      cancellations: enrolled - members,
+      members,
+      memberSessions: startMembers * pricing.membershipIncludedTreatments,
+      membershipRevenue,
+      membershipCash
+    };
+  });
+}
+
+export function getMembershipMonth(schedule: MembershipMonth[], month: number): MembershipMonth {
+  return schedule[month - 1] ?? {
+    month,
+    newMembers: 0,
+    cancellations: 0,
+    members: 0,
+    memberSessions: 0,
+    membershipRevenue: 0,
+    membershipCash: 0
+  };
+}
+
+export function summarizeMembership(pricing: PricingInputs, schedule: MembershipMonth[]): MembershipSummary {
+  const endingMembers = schedule.length > 0 ? schedule[schedule.length - 1].members : 0;
+  return {
+    endingMembers,
+    peakMembers: Math.max(0, ...schedule.map(m => m.members)),
+    endingMRR: endingMembers * pricing.membershipMRR,
+    membershipRevenue: schedule.reduce((sum, m) => sum + m.membershipRevenue, 0)
+  };
+}
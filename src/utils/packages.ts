@@ -0,0 +1,160 @@
+// Treatment packages - sold up front, recognized per session redeemed, with breakage and deferred revenue
+
+import type { PricingInputs } from './calculations';
+import { getMenuListPrice } from './treatmentMenu';
+
+export type TreatmentPackage = PricingInputs['packages'][number];
+
+export interface PackageMonth {
+  month: number;
+  newPatients: number;
+  reservedSessions: number;
+  singleSessions: number;
+  packageSessions: number;
+  packageSales: number;
+  packageRevenue: number;
+  refunds: number;
+  deferredRevenue: number;
+}
+
+export interface PackageSummary {
+  singleSessionPrice: number;
+  blendedNetPrice: number;
+  packageShareOfTreatments: number;
+  packageSales: number;
+  breakageRevenue: number;
+  peakDeferredRevenue: number;
+  endingDeferredRevenue: number;
+}
+
+// Patients buying a package, as a fraction - scaled back if the attach rates add up to more than everyone
+function getAttachShares(pricing: PricingInputs): number[] {
+  const shares = pricing.packages.map(pkg => Math.max(0, pkg.attachRate) / 100);
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  return total > 1 ? shares.map(share => share / total) : shares;
+}
+
+function getRedemptionRate(pricing: PricingInputs): number {
+  return 1 - Math.min(Math.max(pricing.packageBreakagePercent, 0), 99) / 100;
+}
+
+// Price of a session bought on its own - the treatment menu's average list price when there is a menu
+export function getSingleSessionPrice(pricing: PricingInputs, listPrice: number = getMenuListPrice(pricing)): number {
+  return listPrice * (1 - pricing.discountPercent / 100);
+}
+
+// Revenue per redeemed session - expected breakage is recognized in proportion to redemptions
+export function getPackageSessionPrice(pkg: TreatmentPackage, pricing: PricingInputs): number {
+  return pkg.price / (pkg.sessions * getRedemptionRate(pricing));
+}
+
+// Long-run price per treatment once package patients are redeeming as steadily as they buy, upsells included
+export function calculateBlendedNetPrice(pricing: PricingInputs): number {
+  const shares = getAttachShares(pricing);
+  const singleShare = 1 - shares.reduce((sum, share) => sum + share, 0);
+  const redemption = getRedemptionRate(pricing);
+
+  const sessionsPerPatient = singleShare
+    + pricing.packages.reduce((sum, pkg, index) => sum + shares[index] * pkg.sessions * redemption, 0);
+  const revenuePerPatient = singleShare * getSingleSessionPrice(pricing)
+    + pricing.packages.reduce((sum, pkg, index) => sum + shares[index] * pkg.price, 0);
+  const upsell = pricing.upsellAvgPerTx * (pricing.upsellAttachRate / 100);
+
+  return (sessionsPerPatient > 0 ? revenuePerPatient / sessionsPerPatient : 0) + upsell;
+}
+
+// Split each month's treatments between single sessions and package redemptions. Sessions booked
+// ahead (member visits) come first, package patients come back once a month until their series ends,
+// and new patients join as demand brings them in, up to the capacity left. With repeatVisits the rest
+// of the month's treatments are single sessions for returning patients, who buy no new package. With
+// refundAtEnd the device is sold after the last month and unredeemed sessions are refunded. Packages
+// are earned at the price they were sold at.
+export function buildPackageSchedule(
+  pricing: PricingInputs,
+  treatments: number[],
+  patientDemand: (month: number) => number,
+  refundAtEnd: boolean = false,
+  reserveSessions: (month: number, schedule: PackageMonth[]) => number = () => 0,
+  priceFactor: (month: number) => number = () => 1,
+  repeatVisits: boolean = false
+): PackageMonth[] {
+  const shares = getAttachShares(pricing);
+  const singleShare = 1 - shares.reduce((sum, share) => sum + share, 0);
+  const redemption = getRedemptionRate(pricing);
+  const firstMonthSessions = singleShare + shares.reduce((sum, share) => sum + share * redemption, 0);
+
+  const cohorts: Array<{ patients: number; priceFactor: number }> = [];
+  const schedule: PackageMonth[] = [];
+  let deferredRevenue = 0;
+
+  // Cohorts from earlier months still working through a package
+  const activeCohorts = (month: number, pkg: TreatmentPackage) =>
+    cohorts.filter((_, index) => month - (index + 1) < pkg.sessions);
+
+  treatments.forEach((monthTreatments, index) => {
+    const month = index + 1;
+    const returningSessions = pricing.packages.reduce((sum, pkg, p) =>
+      sum + activeCohorts(month, pkg).reduce((total, cohort) => total + cohort.patients * shares[p] * redemption, 0), 0);
+    const reservedSessions = Math.min(monthTreatments, reserveSessions(month, schedule));
+    const openSessions = Math.max(0, monthTreatments - reservedSessions - returningSessions);
+    const newPatients = firstMonthSessions > 0 ? Math.min(patientDemand(month), openSessions / firstMonthSessions) : 0;
+    const repeatSessions = repeatVisits ? openSessions - newPatients * firstMonthSessions : 0;
+    cohorts.push({ patients: newPatients, priceFactor: priceFactor(month) });
+
+    const packageSales = pricing.packages.reduce((sum, pkg, p) =>
+      sum + newPatients * shares[p] * pkg.price * priceFactor(month), 0);
+    const packageRevenue = pricing.packages.reduce((sum, pkg, p) =>
+      sum + activeCohorts(month, pkg).reduce((total, cohort) =>
+        total + cohort.patients * shares[p] * pkg.price * cohort.priceFactor / pkg.sessions, 0), 0);
+
+    deferredRevenue += packageSales - packageRevenue;
+    const refunds = refundAtEnd && month === treatments.length ? deferredRevenue : 0;
+    deferredRevenue -= refunds;
+
+    schedule.push({
+      month,
+      newPatients,
+      reservedSessions,
+      singleSessions: newPatients * singleShare + repeatSessions,
+      packageSessions: returningSessions + newPatients * (firstMonthSessions - singleShare),
+      packageSales,
+      packageRevenue,
+      refunds,
+      deferredRevenue
+    });
+  });
+
+  return schedule;
+}
+
+export function getPackageMonth(schedule: PackageMonth[], month: number): PackageMonth {
+  return schedule[month - 1] ?? {
+    month,
+    newPatients: 0,
+    reservedSessions: 0,
+    singleSessions: 0,
+    packageSessions: 0,
+    packageSales: 0,
+    packageRevenue: 0,
+    refunds: 0,
+    deferredRevenue: 0
+  };
+}
+
+// Totals for the results panel and reports; breakage is the revenue earned on sessions nobody came back for
+export function summarizePackages(pricing: PricingInputs, schedule: PackageMonth[]): PackageSummary {
+  const redemption = getRedemptionRate(pricing);
+  const packageRevenue = schedule.reduce((sum, m) => sum + m.packageRevenue, 0);
+  const sessions = schedule.reduce((sum, m) => sum + m.reservedSessions + m.singleSessions + m.packageSessions, 0);
+  const packageSessions = schedule.reduce((sum, m) => sum + m.packageSessions, 0);
+
+  return {
+    singleSessionPrice: getSingleSessionPrice(pricing),
+    blendedNetPrice: calculateBlendedNetPrice(pricing),
+    packageShareOfTreatments: sessions > 0 ? packageSessions / sessions * 100 : 0,
+    packageSales: schedule.reduce((sum, m) => sum + m.packageSales, 0),
+    breakageRevenue: packageRevenue * (1 - redemption),
+    peakDeferredRevenue: Math.max(0, ...schedule.map(m => m.deferredRevenue)),
+    endingDeferredRevenue: schedule.length > 0 ? schedule[schedule.length - 1].deferredRevenue : 0
+  };
+}
@@ -1,6 +1,12 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import type { CalculatorInputs, MonthlyResults, KPIs } from './calculations';
+import { calculateAcquisitionCost, calculateSalesTax } from './calculations';
+import { getPaymentLabel } from './financing';
+import { compareMarketingSpend } from './marketingScenarios';
+import { CAPACITY_CONSTRAINT_LABELS } from './capacity';
+import { PROVIDER_ROLES } from './staffing';
+import { RESERVE_LINES } from './reserves';
 
 export const exportToPDF = async (
   inputs: CalculatorInputs,
@@ -88,12 +94,13 @@ export const exportToPDF = async (
 
   // Executive Summary
   yPosition = addText('Executive Summary', 20, yPosition + 5, pageWidth - 40, 14);
-  yPosition = addText(`Monthly Payment: $${kpis.monthlyPayment.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition + 3, pageWidth - 40, 10);
-  yPosition = addText(`Monthly Revenue: $${kpis.monthlyRevenue.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
-  yPosition = addText(`Monthly EBITDA: $${kpis.monthlyEBITDA.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addText(`${getPaymentLabel(kpis.paymentFrequency)}: $${kpis.monthlyPayment.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition + 3, pageWidth - 40, 10);
+  yPosition = addText(`${inputs.accounting.basis === 'cash' ? 'Monthly Receipts' : 'Monthly Revenue'}: $${kpis.monthlyRevenue.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addText(`Monthly EBITDA${inputs.accounting.basis === 'cash' ? ' (cash)' : ''}: $${kpis.monthlyEBITDA.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Breakeven Treatments/Day: ${kpis.breakevenTreatmentsPerDay.toFixed(1)}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Payback Period: ${kpis.paybackMonths.toFixed(1)} months`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`NPV: $${kpis.npv.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addText(`Real NPV (today's dollars, ${inputs.escalation.generalInflation}% inflation): $${kpis.realNpv.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addLine(yPosition + 5);
 
   // Device Information
@@ -119,7 +126,11 @@ export const exportToPDF = async (
   yPosition = addText(`Discount: ${inputs.device.discount}%`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Accessories: $${inputs.device.accessories.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Shipping/Install: $${inputs.device.shippingInstall.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
-  yPosition = addText(`Total Cost: $${(inputs.device.msrp - inputs.device.discount + inputs.device.accessories + inputs.device.shippingInstall).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addText(`Sales Tax: $${calculateSalesTax(inputs.device, inputs.financing).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} (${inputs.financing.includeSalesTax ? 'financed' : 'paid up front'})`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addText(`Total Cost: $${(calculateAcquisitionCost(inputs.device) + calculateSalesTax(inputs.device, inputs.financing)).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  if (kpis.acceleratedDeduction) {
+    yPosition = addText(`Section 179 Deduction: $${kpis.acceleratedDeduction.section179.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} | Bonus Depreciation: $${kpis.acceleratedDeduction.bonus.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} (placed in service ${inputs.device.placedInServiceYear})`, 20, yPosition, pageWidth - 40, 10);
+  }
   yPosition = addLine(yPosition + 5);
 
   // Financing Information
@@ -131,11 +142,12 @@ export const exportToPDF = async (
   yPosition = addLine(yPosition + 5);
 
   // Monthly P&L Table (First 12 months)
-  yPosition = addText('Monthly P&L Summary (First 12 Months)', 20, yPosition + 5, pageWidth - 40, 14);
+  const cashBasis = inputs.accounting.basis === 'cash';
+  yPosition = addText(`Monthly P&L Summary (First 12 Months, ${cashBasis ? 'Cash' : 'Accrual'} Basis)`, 20, yPosition + 5, pageWidth - 40, 14);
   
   // Table headers
-  const tableHeaders = ['Month', 'Treatments', 'Revenue', 'EBITDA', 'Cash Flow', 'Cumulative Cash'];
-  const colWidths = [15, 20, 25, 25, 25, 30];
+  const tableHeaders = ['Month', 'Treatments', cashBasis ? 'Receipts' : 'Revenue', 'Reserves', 'EBITDA', 'Cash Flow', 'Cumulative Cash'];
+  const colWidths = [15, 20, 25, 22, 25, 25, 30];
   let xPosition = 20;
   
   // Draw table headers
@@ -162,6 +174,7 @@ export const exportToPDF = async (
       result.month.toString(),
       Math.round(result.treatments).toString(),
       `$${result.revenue.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`,
+      `$${RESERVE_LINES.reduce((sum, line) => sum + result[line.key], 0).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`,
       `$${result.ebitda.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`,
       `$${result.cashFlow.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`,
       `$${result.cumulativeCash.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`
@@ -189,32 +202,130 @@ export const exportToPDF = async (
   yPosition = addText(`Treatments/Day: ${inputs.utilization.treatmentsPerDay}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`No-Show Rate: ${inputs.utilization.noShowRate}%`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Avg Treatment Time: ${inputs.utilization.avgTreatmentTime} minutes`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addText(`Clinic Day: ${inputs.utilization.hoursPerDay} hours, ${inputs.utilization.treatmentRooms} room(s), ${inputs.utilization.operators} operator(s), ${inputs.utilization.turnoverMinutes} min turnover, device available ${inputs.utilization.deviceAvailabilityPercent}%`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addText(`Max Treatments/Day: ${kpis.capacity.maxTreatmentsPerDay} (limited by ${CAPACITY_CONSTRAINT_LABELS[kpis.capacity.limitingFactor]}) | Avg Utilization: ${kpis.capacity.averageUtilization.toFixed(0)}%`, 20, yPosition, pageWidth - 40, 10);
+  if (kpis.capacity.planExceedsCapacity || kpis.capacity.breakevenExceedsCapacity) {
+    yPosition = addText(`Reality check: ${kpis.capacity.breakevenExceedsCapacity ? 'breakeven volume' : 'planned volume'} exceeds what the clinic can fit in a day`, 20, yPosition, pageWidth - 40, 10);
+  }
   yPosition = addLine(yPosition + 5);
 
   // Pricing Assumptions
   yPosition = addText('Pricing & Revenue', 20, yPosition + 5, pageWidth - 40, 12);
-  yPosition = addText(`List Price/Treatment: $${inputs.pricing.listPricePerTreatment}`, 20, yPosition + 3, pageWidth - 40, 10);
+  if (kpis.treatmentProfitability.length > 0) {
+    yPosition += 3;
+    kpis.treatmentProfitability.forEach(treatment => {
+      yPosition = addText(`${treatment.name}: $${treatment.netPrice.toFixed(0)} net, ${treatment.mixShare.toFixed(0)}% of mix, $${treatment.contribution.toFixed(0)} contribution/tx ($${treatment.contributionPerHour.toFixed(0)}/hr)`, 20, yPosition, pageWidth - 40, 10);
+    });
+  } else {
+    yPosition = addText(`List Price/Treatment: $${inputs.pricing.listPricePerTreatment}`, 20, yPosition + 3, pageWidth - 40, 10);
+  }
   yPosition = addText(`Discount: ${inputs.pricing.discountPercent}%`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Upsell Avg/Tx: $${inputs.pricing.upsellAvgPerTx}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Upsell Attach Rate: ${inputs.pricing.upsellAttachRate}%`, 20, yPosition, pageWidth - 40, 10);
+  inputs.pricing.packages.forEach(pkg => {
+    yPosition = addText(`Package: ${pkg.sessions} sessions for $${pkg.price.toLocaleString('en-US')} (${pkg.attachRate}% of patients)`, 20, yPosition, pageWidth - 40, 10);
+  });
+  if (kpis.packages) {
+    yPosition = addText(`Package Breakage: ${inputs.pricing.packageBreakagePercent}% | Blended Net Price/Tx: $${kpis.packages.blendedNetPrice.toFixed(0)}`, 20, yPosition, pageWidth - 40, 10);
+    yPosition = addText(`Peak Deferred Package Revenue: $${kpis.packages.peakDeferredRevenue.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  }
+  if (kpis.membership) {
+    yPosition = addText(`Membership: $${inputs.pricing.membershipMRR}/month, ${inputs.pricing.membershipConversionPercent}% of new patients join, ${inputs.pricing.membershipChurnPercent}% monthly churn`, 20, yPosition, pageWidth - 40, 10);
+    yPosition = addText(`Members at End: ${kpis.membership.endingMembers.toFixed(0)} | MRR at End: $${kpis.membership.endingMRR.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  }
   yPosition = addLine(yPosition + 5);
 
   // Variable Costs
   yPosition = addText('Variable Costs (per treatment)', 20, yPosition + 5, pageWidth - 40, 12);
   yPosition = addText(`Consumables: $${inputs.variableCosts.consumables}`, 20, yPosition + 3, pageWidth - 40, 10);
   yPosition = addText(`Disposables: $${inputs.variableCosts.disposables}`, 20, yPosition, pageWidth - 40, 10);
-  yPosition = addText(`Clinical Time Cost: $${inputs.variableCosts.clinicalTimeCost}/hr`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Room Time Overhead: $${inputs.variableCosts.roomTimeOverhead}/hr`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addLine(yPosition + 5);
 
+  // Providers & Compensation
+  yPosition = addText('Providers & Compensation', 20, yPosition + 5, pageWidth - 40, 12);
+  yPosition += 3;
+  kpis.staffing.providers.forEach((summary, index) => {
+    const provider = inputs.staffing.providers[index];
+    const pay = [
+      provider.monthlySalary > 0 ? `$${provider.monthlySalary}/mo salary` : '',
+      provider.hourlyRate > 0 ? `$${provider.hourlyRate}/hr` : '',
+      provider.commissionPercent > 0 ? `${provider.commissionPercent}% commission` : '',
+      provider.perTreatmentFee > 0 ? `$${provider.perTreatmentFee}/treatment` : '',
+      provider.bonusPercent > 0 ? `${provider.bonusPercent}% bonus over $${provider.bonusThreshold}/mo` : ''
+    ].filter(Boolean).join(', ') || 'unpaid';
+    const role = PROVIDER_ROLES.find(option => option.role === summary.role)?.label ?? summary.role;
+    yPosition = addText(`${summary.name} (${role}): ${pay} - ${summary.treatmentsPerMonth.toFixed(0)} treatments/mo, $${summary.compensationPerMonth.toFixed(0)}/mo`, 20, yPosition, pageWidth - 40, 10);
+  });
+  yPosition = addText(`Provider Pay: ${kpis.staffing.compensationPercentOfRevenue.toFixed(1)}% of treatment revenue`, 20, yPosition, pageWidth - 40, 10);
+  if (kpis.staffing.unstaffedTreatments.length > 0) {
+    yPosition = addText(`No provider set up for: ${kpis.staffing.unstaffedTreatments.join(', ')}`, 20, yPosition, pageWidth - 40, 10);
+  }
+  yPosition = addLine(yPosition + 5);
+
   // Fixed Opex
   yPosition = addText('Fixed Operating Expenses (monthly)', 20, yPosition + 5, pageWidth - 40, 12);
   yPosition = addText(`Marketing Budget: $${inputs.fixedOpex.marketingBudget}`, 20, yPosition + 3, pageWidth - 40, 10);
-  yPosition = addText(`Staff Salary Allocation: $${inputs.fixedOpex.staffSalaryAllocation}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Rent Allocation: $${inputs.fixedOpex.rentAllocation}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Insurance: $${inputs.fixedOpex.insurance}`, 20, yPosition, pageWidth - 40, 10);
   yPosition = addText(`Software/EMR: $${inputs.fixedOpex.softwareEMR}`, 20, yPosition, pageWidth - 40, 10);
-  yPosition = addText(`Maintenance: $${inputs.fixedOpex.maintenancePostWarranty}`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addText(`Calibration/Service Contracts: $${inputs.fixedOpex.calibrationService}`, 20, yPosition, pageWidth - 40, 10);
+  yPosition = addLine(yPosition + 5);
+
+  // Service & Warranty
+  yPosition = addText('Service & Warranty', 20, yPosition + 5, pageWidth - 40, 12);
+  yPosition = addText(`OEM Warranty: ${inputs.device.warrantyYears} years (through month ${kpis.service.warrantyEndMonth})`, 20, yPosition + 3, pageWidth - 40, 10);
+  if (inputs.service.coverage === 'extended-warranty') {
+    yPosition = addText(`Extended Warranty: $${inputs.device.extendedWarrantyCost.toLocaleString('en-US')}/year for ${inputs.service.extendedWarrantyYears} years, then maintenance at $${inputs.service.maintenancePerMonth}/month`, 20, yPosition, pageWidth - 40, 10);
+  } else {
+    yPosition = addText(`Pay-as-you-go Maintenance: $${inputs.service.maintenancePerMonth}/month after the warranty`, 20, yPosition, pageWidth - 40, 10);
+  }
+  yPosition = addText(`Service Cost Increase: ${inputs.service.escalationPercent}%/year | Total Service Cost: $${kpis.service.totalServiceCost.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  if (kpis.service.uncoveredPaymentMonths > 0) {
+    yPosition = addText(`Warning: financing runs ${kpis.service.uncoveredPaymentMonths} months past warranty coverage (term ends month ${kpis.service.financingEndMonth}, coverage ends month ${kpis.service.coverageEndMonth})`, 20, yPosition, pageWidth - 40, 10);
+  }
+  yPosition = addLine(yPosition + 5);
+
+  // Handpieces & Replacement Parts
+  if (inputs.lifecycle.parts.length > 0) {
+    yPosition = addText('Handpieces & Replacement Parts', 20, yPosition + 5, pageWidth - 40, 12);
+    yPosition += 3;
+    kpis.parts.parts.forEach((summary, index) => {
+      const part = inputs.lifecycle.parts[index];
+      const life = [
+        part.lifeTreatments > 0 ? `${part.lifeTreatments} treatments` : '',
+        part.lifeMonths > 0 ? `${part.lifeMonths} months` : ''
+      ].filter(Boolean).join(' or ') || 'no limit';
+      const first = summary.firstReplacementMonth > 0 ? `first due month ${summary.firstReplacementMonth}` : 'none due';
+      yPosition = addText(`${summary.name}: $${part.cost.toLocaleString('en-US')} every ${life}, ${part.leadTimeMonths} months lead time - ${summary.replacements} replacements, ${first}, $${summary.totalCost.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+    });
+    yPosition = addText(`Parts Cost: $${kpis.parts.costPerTreatment.toFixed(2)}/treatment | Largest Bill: $${kpis.parts.largestBill.amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}${kpis.parts.largestBill.month > 0 ? ` in month ${kpis.parts.largestBill.month}` : ''}`, 20, yPosition, pageWidth - 40, 10);
+    yPosition = addLine(yPosition + 5);
+  }
+
+  // Revenue Reserves - first-year totals, one line per reserve
+  const firstYear = results.slice(0, 12);
+  yPosition = addText('Revenue Reserves (first 12 months)', 20, yPosition + 5, pageWidth - 40, 12);
+  yPosition += 3;
+  RESERVE_LINES.forEach(line => {
+    const total = firstYear.reduce((sum, result) => sum + result[line.key], 0);
+    yPosition = addText(`${line.label} (${inputs.reserves[line.input]}% of revenue): $${total.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 20, yPosition, pageWidth - 40, 10);
+  });
+  yPosition = addLine(yPosition + 5);
+
+  // Marketing & Patient Acquisition
+  yPosition = addText('Marketing & Patient Acquisition', 20, yPosition + 5, pageWidth - 40, 12);
+  if (inputs.marketing.volumeDriver === 'funnel') {
+    yPosition = addText(`Volume driven by the marketing funnel: $${inputs.marketing.costPerLead} per lead, ${inputs.marketing.organicLeadsPerMonth} organic leads/month, ${inputs.marketing.consultRate}% consult, ${inputs.marketing.bookingRate}% booking`, 20, yPosition + 3, pageWidth - 40, 10);
+  } else {
+    yPosition = addText('Volume driven by the utilization ramp', 20, yPosition + 3, pageWidth - 40, 10);
+  }
+  yPosition = addText(`New Patients/Month: ${kpis.marketing.newPatientsPerMonth.toFixed(1)} | Acquisition Cost (CAC): $${kpis.marketing.costPerNewPatient.toFixed(0)} | Gross Profit/New Patient: $${kpis.marketing.grossProfitPerNewPatient.toFixed(0)}`, 20, yPosition, pageWidth - 40, 10);
+  if (inputs.marketing.volumeDriver === 'funnel') {
+    const [extraSpend] = compareMarketingSpend(inputs, results.length, [2000]);
+    const payback = extraSpend.paybackMonths !== null ? `paid back in month ${extraSpend.paybackMonths}` : 'not paid back';
+    yPosition = addText(`+$2,000/month marketing: ${extraSpend.newPatientsPerMonth.toFixed(1)} new patients/month, NPV change $${extraSpend.npvChange.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}, ${payback}`, 20, yPosition, pageWidth - 40, 10);
+  }
   yPosition = addLine(yPosition + 5);
 
   // Disclaimer
@@ -0,0 +1,135 @@
+// Handpieces, tips and flashlamps that wear out - replaced after so many treatments or months, ordered ahead of need
+
+import type { CalculatorInputs, MonthlyResults, ReplacementPart } from './calculations';
+import { getEscalationFactors } from './escalation';
+import { getLineShares } from './treatmentMenu';
+
+// One replacement purchase - booked when the part goes in, paid when it is ordered
+export interface PartReplacement {
+  part: number;
+  month: number;
+  orderMonth: number;
+  count: number;
+  cost: number;
+}
+
+export interface PartsMonth {
+  cost: number;
+  cash: number;
+}
+
+export interface PartSummary {
+  name: string;
+  replacements: number;
+  firstReplacementMonth: number;
+  totalCost: number;
+}
+
+export interface PartsSummary {
+  parts: PartSummary[];
+  firstReplacementMonth: number;
+  largestBill: { month: number; amount: number };
+  totalCost: number;
+  costPerTreatment: number;
+}
+
+// Share of a month's treatments that wear a part - the menu lines it is used for
+function getPartUsage(inputs: CalculatorInputs, part: ReplacementPart, month?: number): number {
+  const menu = inputs.pricing.treatmentMenu;
+  if (menu.length === 0 || part.treatments.length === 0) return 1;
+  const shares = getLineShares(menu, month);
+  return menu.reduce((sum, item, index) => sum + (part.treatments.includes(item.name) ? shares[index] : 0), 0);
+}
+
+// Replacements for the treatments performed each month (index 0 = month 1). The part fitted at
+// purchase comes with the device; each replacement is priced at consumables inflation in the month it
+// is ordered, and orders due before month 1 are placed in month 1.
+export function buildReplacementSchedule(inputs: CalculatorInputs, treatments: number[]): PartReplacement[] {
+  const { device, escalation } = inputs;
+
+  return inputs.lifecycle.parts.flatMap((part, index) => {
+    const replacements: PartReplacement[] = [];
+    let used = 0;
+    let age = 0;
+
+    treatments.forEach((monthTreatments, i) => {
+      const month = i + 1;
+      used += monthTreatments * getPartUsage(inputs, part, month);
+      age += 1;
+
+      const wornOut = part.lifeTreatments > 0 ? Math.floor(used / part.lifeTreatments) : 0;
+      const agedOut = part.lifeMonths > 0 && age >= part.lifeMonths;
+      if (wornOut === 0 && !agedOut) return;
+
+      // Treatments past the wear limit carry over to the new part; a part that ages out starts fresh
+      used = agedOut ? 0 : used - wornOut * part.lifeTreatments;
+      age = 0;
+
+      const count = Math.max(wornOut, 1);
+      const orderMonth = Math.max(1, month - Math.max(0, part.leadTimeMonths));
+      const price = part.cost * getEscalationFactors(escalation, orderMonth, device.placedInServiceMonth).consumables;
+      replacements.push({ part: index, month, orderMonth, count, cost: count * price });
+    });
+
+    return replacements;
+  });
+}
+
+// Replacement cost expensed in a month and the orders paid for in it
+export function getPartsMonth(schedule: PartReplacement[], month: number): PartsMonth {
+  return schedule.reduce(
+    (total, replacement) => ({
+      cost: total.cost + (replacement.month === month ? replacement.cost : 0),
+      cash: total.cash + (replacement.orderMonth === month ? replacement.cost : 0)
+    }),
+    { cost: 0, cash: 0 }
+  );
+}
+
+// Steady-state replacement cost - parts that wear by use per treatment, parts that only age per month
+export function getPartsRunRate(inputs: CalculatorInputs, lineIndex?: number): { perTreatment: number; perMonth: number } {
+  const menu = inputs.pricing.treatmentMenu;
+  return inputs.lifecycle.parts.reduce((total, part) => {
+    if (part.lifeTreatments > 0) {
+      const usage = lineIndex === undefined
+        ? getPartUsage(inputs, part)
+        : part.treatments.length === 0 || part.treatments.includes(menu[lineIndex].name) ? 1 : 0;
+      return { ...total, perTreatment: total.perTreatment + usage * part.cost / part.lifeTreatments };
+    }
+    if (part.lifeMonths > 0) {
+      return { ...total, perMonth: total.perMonth + part.cost / part.lifeMonths };
+    }
+    return total;
+  }, { perTreatment: 0, perMonth: 0 });
+}
+
+// Replacements over the months the device is in service and the biggest single month's bill
+export function summarizeParts(inputs: CalculatorInputs, results: MonthlyResults[]): PartsSummary {
+  const schedule = buildReplacementSchedule(inputs, results.map(r => r.treatments));
+  const totalTreatments = results.reduce((sum, r) => sum + r.treatments, 0);
+
+  const parts = inputs.lifecycle.parts.map((part, index) => {
+    const replacements = schedule.filter(replacement => replacement.part === index);
+    return {
+      name: part.name,
+      replacements: replacements.reduce((sum, replacement) => sum + replacement.count, 0),
+      firstReplacementMonth: replacements.length > 0 ? replacements[0].month : 0,
+      totalCost: replacements.reduce((sum, replacement) => sum + replacement.cost, 0)
+    };
+  });
+
+  const largestBill = results.reduce((largest, r) => {
+    const amount = getPartsMonth(schedule, r.month).cash;
+    return amount > largest.amount ? { month: r.month, amount } : largest;
+  }, { month: 0, amount: 0 });
+  const firstMonths = parts.map(part => part.firstReplacementMonth).filter(month => month > 0);
+  const totalCost = parts.reduce((sum, part) => sum + part.totalCost, 0);
+
+  return {
+    parts,
+    firstReplacementMonth: firstMonths.length > 0 ? Math.min(...firstMonths) : 0,
+    largestBill,
+    totalCost,
+    costPerTreatment: totalTreatments > 0 ? totalCost / totalTreatments : 0
+  };
+}
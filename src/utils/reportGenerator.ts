@@ -1,5 +1,14 @@
 import jsPDF from 'jspdf';
 import type { CalculatorInputs, MonthlyResults, KPIs } from './calculations';
+import { calculateAcquisitionCost, calculateSalesTax } from './calculations';
+import { getPaymentLabel, isLease } from './financing';
+import { buildAmortizationSchedule } from './amortization';
+import { buildDepreciationSchedule, buildTaxDepreciationSchedule } from './depreciation';
+import { calculateAcceleratedDeduction } from './section179';
+import { getCombinedTaxRate } from './taxes';
+import { calculateBlendedNetPrice } from './packages';
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
 
 export interface ReportSection {
   id: string;
@@ -131,12 +140,13 @@ export const reportSections: Record<string, ReportSection> = {
         ['Device', _scenario.device]
       ] : kpis ? [
         ['Metric', 'Value'],
-        ['Monthly Payment', `$${kpis.monthlyPayment.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`],
+        [getPaymentLabel(kpis.paymentFrequency), `$${kpis.monthlyPayment.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`],
         ['Monthly Revenue', `$${kpis.monthlyRevenue.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`],
         ['Monthly EBITDA', `$${kpis.monthlyEBITDA.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`],
         ['Breakeven Treatments/Day', kpis.breakevenTreatmentsPerDay.toFixed(1)],
         ['Payback Period', `${kpis.paybackMonths.toFixed(1)} months`],
-        ['NPV', `$${kpis.npv.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]
+        ['NPV', `$${kpis.npv.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`],
+        ['Real NPV (today\'s dollars)', `$${kpis.realNpv.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]
       ] : [];
       
       if (summaryData.length > 0) {
@@ -162,10 +172,10 @@ export const reportSections: Record<string, ReportSection> = {
       yPosition = addSectionHeader(pdf, 'Key Performance Metrics', yPosition, pageWidth);
       
       if (kpis) {
-        const totalCost = inputs.device.msrp - inputs.device.discount + inputs.device.accessories + inputs.device.shippingInstall;
-        const monthlyCashFlow = kpis.monthlyEBITDA - kpis.monthlyPayment;
-        const monthlyTreatments = (kpis.monthlyRevenue / inputs.pricing.listPricePerTreatment);
-        const revenuePerTreatment = inputs.pricing.listPricePerTreatment;
+        const totalCost = calculateAcquisitionCost(inputs.device) + calculateSalesTax(inputs.device, inputs.financing);
+        const monthlyCashFlow = kpis.monthlyEBITDA - kpis.monthlyEquivalentPayment;
+        const revenuePerTreatment = calculateBlendedNetPrice(inputs.pricing);
+        const monthlyTreatments = (kpis.monthlyRevenue / revenuePerTreatment);
         
         const metricsData = [
           ['Metric', 'Value', 'Target'],
@@ -185,7 +195,7 @@ export const reportSections: Record<string, ReportSection> = {
   'device-info': {
     id: 'device-info',
     name: 'Device Information',
-    content: (pdf, inputs, _results, _kpis, selectedDevice, yPosition, _customerInfo, _scenario) => {
+    content: (pdf, inputs, _results, kpis, selectedDevice, yPosition, _customerInfo, _scenario) => {
       const pageWidth = pdf.internal.pageSize.getWidth();
       
       yPosition = addSectionHeader(pdf, 'Device Information', yPosition, pageWidth);
@@ -220,9 +230,31 @@ export const reportSections: Record<string, ReportSection> = {
         ['Discount', `${inputs.device.discount}%`],
         ['Accessories', `$${inputs.device.accessories.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`],
         ['Shipping/Install', `$${inputs.device.shippingInstall.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`],
-        ['Total Cost', `$${(inputs.device.msrp - inputs.device.discount + inputs.device.accessories + inputs.device.shippingInstall).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]
+        ['Sales Tax', `$${calculateSalesTax(inputs.device, inputs.financing).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} (${inputs.financing.includeSalesTax ? 'financed' : 'paid up front'})`],
+        ['Total Cost', `$${(calculateAcquisitionCost(inputs.device) + calculateSalesTax(inputs.device, inputs.financing)).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]
       ];
       
+      deviceData.push(['Tax Rates', `Federal ${inputs.device.federalTaxRate}% / State ${inputs.device.stateTaxRate}% / Local ${inputs.device.localTaxRate}% (${inputs.device.entityType === 'c-corp' ? 'C-corp' : 'pass-through'}, ${getCombinedTaxRate(inputs.device).toFixed(1)}% combined)`]);
+      
+      if (kpis?.disposal) {
+        const { disposal } = kpis;
+        deviceData.push(['Sale', `Month ${disposal.month} for $${disposal.salePrice.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} less $${disposal.sellingCosts.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} selling costs`]);
+        deviceData.push(['Gain / (Loss) vs Book', `$${disposal.gainOnSale.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} (book value $${disposal.bookValue.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })})`]);
+        deviceData.push(['Depreciation Recapture', `$${disposal.depreciationRecapture.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} (tax on sale $${disposal.taxOnSale.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })})`]);
+        deviceData.push(['Net Sale Proceeds', `$${disposal.netProceeds.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} after loan payoff and tax`]);
+      }
+      
+      // Sec 179 / bonus must be disclosed whenever it was applied
+      if (kpis?.acceleratedDeduction) {
+        const { section179, bonus, bonusRate } = kpis.acceleratedDeduction;
+        if (section179 > 0) {
+          deviceData.push(['Section 179 Deduction', `$${section179.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} (${inputs.device.placedInServiceYear})`]);
+        }
+        if (bonus > 0) {
+          deviceData.push(['Bonus Depreciation', `$${bonus.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} (${bonusRate}%)`]);
+        }
+      }
+      
       if (selectedDevice) {
         deviceData.push(['Selected Device', `${selectedDevice.manufacturer} ${selectedDevice.model_name}`]);
         if (selectedDevice.mrp_url) {
@@ -239,7 +271,7 @@ export const reportSections: Record<string, ReportSection> = {
   'financing': {
     id: 'financing',
     name: 'Financing Details',
-    content: (pdf, inputs, _results, _kpis, _selectedDevice, yPosition) => {
+    content: (pdf, inputs, results, kpis, _selectedDevice, yPosition) => {
       const pageWidth = pdf.internal.pageSize.getWidth();
       
       yPosition = addSectionHeader(pdf, 'Financing Details', yPosition, pageWidth);
@@ -249,24 +281,162 @@ export const reportSections: Record<string, ReportSection> = {
         ['Purchase Method', inputs.financing.purchaseMethod.replace('-', ' ').toUpperCase()],
         ['APR', `${inputs.financing.apr}%`],
         ['Term', `${inputs.financing.termMonths} months`],
+        ['Payment Frequency', inputs.financing.paymentFrequency.replace('-', ' ')],
         ['Down Payment', inputs.financing.downPaymentType === 'percent' ? `${inputs.financing.downPayment}%` : `$${inputs.financing.downPayment.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]
       ];
       
+      if (inputs.financing.purchaseMethod === 'loan') {
+        if (inputs.financing.balloonResidual > 0) {
+          financingData.push(['Balloon at Maturity', inputs.financing.balloonType === 'percent' ? `${inputs.financing.balloonResidual}%` : `$${inputs.financing.balloonResidual.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]);
+        }
+        if (kpis?.prepaymentAnalysis) {
+          financingData.push(['Early Payoff', `Month ${kpis.prepaymentAnalysis.payoffMonth}`]);
+          financingData.push(['Interest Saved', `$${kpis.prepaymentAnalysis.interestSaved.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]);
+          financingData.push(['Prepayment Penalty', `$${kpis.prepaymentAnalysis.penaltyCharged.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]);
+        }
+        if (inputs.financing.deferredMonths > 0) {
+          financingData.push(['Deferred Months', `${inputs.financing.deferredMonths} (interest ${inputs.financing.deferralInterest === 'capitalize' ? 'capitalized' : 'paid'})`]);
+        }
+      }
+      
+      if (inputs.financing.purchaseMethod !== 'cash' && inputs.financing.originationFees > 0) {
+        financingData.push(['Origination/Doc Fees', `$${inputs.financing.originationFees.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} (${inputs.financing.financeFees ? 'financed' : 'paid up front'})`]);
+      }
+      
+      if (isLease(inputs.financing.purchaseMethod)) {
+        if (inputs.financing.leaseRateType === 'money-factor') {
+          financingData.push(['Money Factor', inputs.financing.moneyFactor.toFixed(5)]);
+        }
+        financingData.push(['Residual / Buyout', inputs.financing.balloonType === 'percent' ? `${inputs.financing.balloonResidual}%` : `$${inputs.financing.balloonResidual.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]);
+        financingData.push(['Lease Accounting', inputs.financing.purchaseMethod === 'lease-fmv' ? 'Operating expense (no depreciation)' : 'Capitalized and depreciated']);
+      }
+      
+      if (inputs.financing.purchaseMethod === 'promo-0') {
+        financingData.push(['0% Promo Window', `${inputs.financing.promoMonths} months`]);
+        financingData.push(['After Promo', inputs.financing.promoType === 'deferred-interest' ? 'Deferred interest if balance remains' : 'Standard APR on remaining balance']);
+        if (kpis?.promoComparison) {
+          financingData.push(['Promo Savings vs Standard Loan', `$${kpis.promoComparison.savings.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`]);
+        }
+      }
+      
+      if (kpis && kpis.interestTaxShield !== 0) {
+        financingData.push(['Interest Tax Shield', `$${kpis.interestTaxShield.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })} over ${results.length} months`]);
+      }
+      
       yPosition = addTable(pdf, financingData[0], financingData.slice(1), yPosition, pageWidth);
       
       return yPosition;
     }
   },
   
+  'payment-schedule': {
+    id: 'payment-schedule',
+    name: 'Payment Schedule',
+    content: (pdf, inputs, _results, _kpis, _selectedDevice, yPosition) => {
+      const pageWidth = pdf.internal.pageSize.getWidth();
+      const pageHeight = pdf.internal.pageSize.getHeight();
+      const schedule = buildAmortizationSchedule(inputs);
+      const formatCurrency = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+      const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+      
+      yPosition = addSectionHeader(pdf, 'Payment Schedule', yPosition, pageWidth);
+      
+      if (schedule.rows.length === 0) {
+        return addText(pdf, 'Cash purchase - no financing payments.', 20, yPosition, pageWidth - 40, 10) + 10;
+      }
+      
+      const summaryData = [
+        ['Total', 'Value'],
+        ['Amount Financed', formatCurrency(schedule.amountFinanced)],
+        ['Total Payments', formatCurrency(schedule.totalPayments)],
+        ['Total Interest', formatCurrency(schedule.totalInterest)],
+        ['Principal & Balloon Repaid', formatCurrency(schedule.totalPrincipal)],
+        ['Fees & Penalties', formatCurrency(schedule.totalFees)],
+        ['Payoff Date', schedule.payoffDate ? `${formatDate(schedule.payoffDate)} (month ${schedule.payoffMonth})` : '-']
+      ];
+      yPosition = addTable(pdf, summaryData[0], summaryData.slice(1), yPosition, pageWidth);
+      if (Math.abs(schedule.unreconciledPrincipal) >= 1) {
+        yPosition = addText(pdf, `Principal and balloon repaid differ from the amount financed by ${formatCurrency(schedule.unreconciledPrincipal)}.`, 20, yPosition, pageWidth - 40, 10);
+      }
+      
+      // Long schedules run over several pages, so rows are added in page-sized chunks
+      const tableHeaders = ['#', 'Date', 'Payment', 'Interest', 'Principal', 'Balloon', 'Balance'];
+      const tableRows = schedule.rows.map(row => [
+        row.month.toString(),
+        formatDate(row.date),
+        formatCurrency(row.payment),
+        formatCurrency(row.interest),
+        formatCurrency(row.principal + row.prepayment),
+        row.residual > 0 ? formatCurrency(row.residual) : '-',
+        formatCurrency(row.balance)
+      ]);
+      
+      let rowIndex = 0;
+      while (rowIndex < tableRows.length) {
+        const rowsThatFit = Math.max(1, Math.floor((pageHeight - 30 - yPosition - 8) / 8));
+        yPosition = addTable(pdf, tableHeaders, tableRows.slice(rowIndex, rowIndex + rowsThatFit), yPosition, pageWidth);
+        rowIndex += rowsThatFit;
+        if (rowIndex < tableRows.length) {
+          pdf.addPage();
+          yPosition = 20;
+        }
+      }
+      
+      return yPosition;
+    }
+  },
+  
+  'depreciation-schedule': {
+    id: 'depreciation-schedule',
+    name: 'Depreciation Schedule',
+    content: (pdf, inputs, _results, _kpis, _selectedDevice, yPosition) => {
+      const pageWidth = pdf.internal.pageSize.getWidth();
+      const { device, financing } = inputs;
+      const formatCurrency = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+      
+      yPosition = addSectionHeader(pdf, 'Depreciation Schedule', yPosition, pageWidth);
+      
+      if (financing.purchaseMethod === 'lease-fmv') {
+        return addText(pdf, 'FMV lease - the lessor owns and depreciates the equipment; lease payments are expensed.', 20, yPosition, pageWidth - 40, 10) + 10;
+      }
+      
+      const basis = calculateAcquisitionCost(device) + calculateSalesTax(device, financing);
+      const accelerated = calculateAcceleratedDeduction(device, financing, basis);
+      const book = buildDepreciationSchedule(device, basis, device.salvageValue);
+      const tax = buildTaxDepreciationSchedule(device, basis, device.salvageValue, accelerated.section179 + accelerated.bonus);
+      
+      const method = device.depreciationMethod === 'macrs'
+        ? `MACRS ${device.depreciationLife}-year, ${device.decliningBalanceRate}% declining balance, ${device.depreciationConvention === 'half-year' ? 'half-year' : 'mid-quarter'} convention`
+        : `Straight-line over ${device.depreciationLife} years to ${formatCurrency(device.salvageValue)} salvage`;
+      yPosition = addText(pdf, `Method: ${method}. Depreciable basis ${formatCurrency(basis)}, placed in service ${MONTH_NAMES[device.placedInServiceMonth - 1]} ${device.placedInServiceYear}.`, 20, yPosition, pageWidth - 40, 10);
+      yPosition += 3;
+      
+      const tableHeaders = ['Tax Year', 'Book Depreciation', 'Book Value', 'Tax Depreciation', 'Tax Basis Left'];
+      const years = Math.max(book.yearly.length, tax.yearly.length);
+      const tableRows = Array.from({ length: years }, (_, index) => [
+        (device.placedInServiceYear + index).toString(),
+        formatCurrency(book.yearly[index]?.depreciation ?? 0),
+        formatCurrency(book.yearly[index]?.endingBookValue ?? book.yearly[book.yearly.length - 1]?.endingBookValue ?? 0),
+        formatCurrency(tax.yearly[index]?.depreciation ?? 0),
+        formatCurrency(tax.yearly[index]?.endingBookValue ?? 0)
+      ]);
+      
+      yPosition = addTable(pdf, tableHeaders, tableRows, yPosition, pageWidth);
+      
+      return yPosition;
+    }
+  },
+  
   'monthly-breakdown': {
     id: 'monthly-breakdown',
     name: 'Monthly P&L Breakdown',
-    content: (pdf, _inputs, _results, _kpis, _selectedDevice, yPosition) => {
+    content: (pdf, inputs, _results, _kpis, _selectedDevice, yPosition) => {
       const pageWidth = pdf.internal.pageSize.getWidth();
+      const cashBasis = inputs.accounting.basis === 'cash';
       
-      yPosition = addSectionHeader(pdf, 'Monthly P&L Summary (First 12 Months)', yPosition, pageWidth);
+      yPosition = addSectionHeader(pdf, `Monthly P&L Summary (First 12 Months, ${cashBasis ? 'Cash' : 'Accrual'} Basis)`, yPosition, pageWidth);
       
-      const tableHeaders = ['Month', 'Treatments', 'Revenue', 'EBITDA', 'Cash Flow', 'Cumulative Cash'];
+      const tableHeaders = ['Month', 'Treatments', cashBasis ? 'Receipts' : 'Revenue', 'EBITDA', 'Cash Flow', 'Cumulative Cash'];
       const tableRows = _results.slice(0, 12).map((result: any) => [
         `M${result.month}`,
         result.treatments.toFixed(0),
@@ -311,7 +481,7 @@ export const reportSections: Record<string, ReportSection> = {
   'disclaimer': {
     id: 'disclaimer',
     name: 'Legal Disclaimer',
-    content: (pdf, _inputs, _results, _kpis, _selectedDevice, yPosition) => {
+    content: (pdf, inputs, _results, kpis, _selectedDevice, yPosition) => {
       const pageWidth = pdf.internal.pageSize.getWidth();
       
       yPosition = addSectionHeader(pdf, 'Legal Disclaimer', yPosition, pageWidth);
@@ -331,6 +501,9 @@ export const reportSections: Record<string, ReportSection> = {
         '• This analysis should be reviewed by qualified financial professionals before making investment decisions',
         '• MRP.io and its affiliates make no warranties or guarantees regarding the accuracy of these projections',
         '• Users should conduct their own due diligence and seek professional advice before making business decisions',
+        ...(kpis?.acceleratedDeduction
+          ? [`• Section 179 and/or bonus depreciation was applied in year 1 at a ${getCombinedTaxRate(inputs.device).toFixed(1)}% combined tax rate${inputs.device.stateConformity ? '' : ' (state tax follows regular depreciation)'}. Eligibility depends on the practice's taxable income and total equipment placed in service; confirm with a tax advisor`]
+          : []),
         '',
         'By using this report, you acknowledge that you have read, understood, and agree to these terms and conditions.'
       ];
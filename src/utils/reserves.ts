@@ -0,0 +1,37 @@
+// Revenue reserves - downtime, refunds, chargebacks and bad debt held back as a percentage of revenue
+
+import type { ReserveInputs } from './calculations';
+
+// One P&L line per reserve, each a deduction from revenue
+export interface ReserveLines {
+  downtimeReserve: number;
+  refundReserve: number;
+  chargebackReserve: number;
+  badDebtReserve: number;
+}
+
+export const RESERVE_LINES: Array<{ key: keyof ReserveLines; input: keyof ReserveInputs; label: string }> = [
+  { key: 'downtimeReserve', input: 'downtimePercent', label: 'Downtime' },
+  { key: 'refundReserve', input: 'refundPercent', label: 'Refunds' },
+  { key: 'chargebackReserve', input: 'chargebackPercent', label: 'Chargebacks & Fraud' },
+  { key: 'badDebtReserve', input: 'badDebtPercent', label: 'Bad Debt' }
+];
+
+// Share of revenue held back across all reserves, as a fraction
+export function getReserveRate(reserves: ReserveInputs): number {
+  return RESERVE_LINES.reduce((sum, line) => sum + Math.max(0, reserves[line.input]), 0) / 100;
+}
+
+export function calculateReserves(reserves: ReserveInputs, revenue: number): ReserveLines {
+  const reserve = (input: keyof ReserveInputs) => revenue * Math.max(0, reserves[input]) / 100;
+  return {
+    downtimeReserve: reserve('downtimePercent'),
+    refundReserve: reserve('refundPercent'),
+    chargebackReserve: reserve('chargebackPercent'),
+    badDebtReserve: reserve('badDebtPercent')
+  };
+}
+
+export function getTotalReserves(lines: ReserveLines): number {
+  return lines.downtimeReserve + lines.refundReserve + lines.chargebackReserve + lines.badDebtReserve;
+}
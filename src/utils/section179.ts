@@ -0,0 +1,62 @@
+// Section 179 expensing and bonus depreciation - first-year tax deductions on the device
+
+import type { DeviceInputs, FinancingInputs } from './calculations';
+
+export interface AcceleratedDeduction {
+  section179: number;
+  bonus: number;
+  bonusRate: number;
+  section179Limit: number;
+  remainingBasis: number;
+}
+
+// Bonus depreciation % by placed-in-service year; years after the last entry use the last rate
+export const DEFAULT_BONUS_RATES: Record<number, number> = {
+  2022: 100,
+  2023: 80,
+  2024: 60,
+  2025: 100,
+  2026: 100
+};
+
+export function getBonusRate(rates: Record<number, number>, year: number): number {
+  const years = Object.keys(rates).map(Number).filter(y => y <= year).sort((a, b) => b - a);
+  return years.length > 0 ? rates[years[0]] : 0;
+}
+
+// FMV leases stay on the lessor's books, so only owned or capitalized equipment qualifies
+export function isEligibleForAcceleratedDeduction(financing: FinancingInputs): boolean {
+  return financing.purchaseMethod !== 'lease-fmv';
+}
+
+// Annual limit, reduced dollar for dollar once total equipment placed in service passes the threshold
+export function calculateSection179Limit(device: DeviceInputs, basis: number): number {
+  const totalPlacedInService = basis + device.otherEquipmentPurchases;
+  const phaseOut = Math.max(0, totalPlacedInService - device.section179PhaseOutThreshold);
+  return Math.max(0, device.section179Limit - phaseOut);
+}
+
+// Section 179 is taken first; bonus applies to what is left; regular depreciation covers the remainder
+export function calculateAcceleratedDeduction(
+  device: DeviceInputs,
+  financing: FinancingInputs,
+  basis: number
+): AcceleratedDeduction {
+  const section179Limit = calculateSection179Limit(device, basis);
+  const bonusRate = getBonusRate(device.bonusRates, device.placedInServiceYear);
+
+  if (!isEligibleForAcceleratedDeduction(financing)) {
+    return { section179: 0, bonus: 0, bonusRate, section179Limit, remainingBasis: basis };
+  }
+
+  const section179 = device.section179 ? Math.min(basis, section179Limit) : 0;
+  const bonus = device.bonusDepreciation ? (basis - section179) * bonusRate / 100 : 0;
+
+  return {
+    section179,
+    bonus,
+    bonusRate,
+    section179Limit,
+    remainingBasis: basis - section179 - bonus
+  };
+}
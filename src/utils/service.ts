@@ -0,0 +1,90 @@
+// Service cost timeline - free under the OEM warranty, then an extended warranty or pay-as-you-go maintenance
+
+import type { CalculatorInputs, DeviceInputs, ServiceInputs } from './calculations';
+import type { FinancingPeriod } from './financing';
+
+export type ServiceCoverage = 'oem-warranty' | 'extended-warranty' | 'uncovered';
+
+export interface ServiceMonth {
+  coverage: ServiceCoverage;
+  cost: number;
+  cash: number;
+}
+
+export interface ServiceSummary {
+  warrantyEndMonth: number;
+  coverageEndMonth: number;
+  financingEndMonth: number;
+  uncoveredPaymentMonths: number;
+  totalServiceCost: number;
+}
+
+export const SERVICE_COVERAGE_OPTIONS: Array<{ value: ServiceInputs['coverage']; label: string }> = [
+  { value: 'pay-as-you-go', label: 'Pay-as-you-go maintenance' },
+  { value: 'extended-warranty', label: 'Extended warranty' }
+];
+
+// Last month under the manufacturer's warranty
+export function getWarrantyEndMonth(device: DeviceInputs): number {
+  return Math.max(0, Math.round(device.warrantyYears * 12));
+}
+
+// Last month under any warranty - the extended warranty picks up where the OEM warranty ends
+export function getCoverageEndMonth(device: DeviceInputs, service: ServiceInputs): number {
+  const extendedMonths = service.coverage === 'extended-warranty' ? Math.max(0, Math.round(service.extendedWarrantyYears * 12)) : 0;
+  return getWarrantyEndMonth(device) + extendedMonths;
+}
+
+// Month of the last payment actually made - a balloon, an early payoff or the payoff at sale ends it
+// early; nothing is owed when the device is bought outright
+export function getFinancingEndMonth(schedule: FinancingPeriod[]): number {
+  const paid = schedule.filter(period => period.payment + period.residual + period.prepayment > 0.005);
+  return paid.length > 0 ? paid[paid.length - 1].month : 0;
+}
+
+// Payments that fall due with nothing covering the device
+export function getUncoveredPaymentMonths(inputs: CalculatorInputs, schedule: FinancingPeriod[]): number {
+  return Math.max(0, getFinancingEndMonth(schedule) - getCoverageEndMonth(inputs.device, inputs.service));
+}
+
+export function getServiceCoverage(device: DeviceInputs, service: ServiceInputs, month: number): ServiceCoverage {
+  if (month <= getWarrantyEndMonth(device)) return 'oem-warranty';
+  if (month <= getCoverageEndMonth(device, service)) return 'extended-warranty';
+  return 'uncovered';
+}
+
+// Service costs for a month. Extended warranty years are paid up front, prorated if the device is sold
+// part way through, and each renewal costs more than the last; maintenance rises on every anniversary
+// of the warranty running out.
+export function calculateServiceMonth(inputs: CalculatorInputs, month: number, lastMonth: number): ServiceMonth {
+  const { device, service } = inputs;
+  const coverage = getServiceCoverage(device, service, month);
+  const escalate = (yearsIn: number) => Math.pow(1 + service.escalationPercent / 100, yearsIn);
+
+  if (coverage === 'oem-warranty' || month > lastMonth) {
+    return { coverage, cost: 0, cash: 0 };
+  }
+
+  if (coverage === 'extended-warranty') {
+    const monthsIn = month - getWarrantyEndMonth(device) - 1;
+    const annualPrice = device.extendedWarrantyCost * escalate(Math.floor(monthsIn / 12));
+    const renewal = monthsIn % 12 === 0;
+    const coveredMonths = Math.min(12, getCoverageEndMonth(device, service) - month + 1, lastMonth - month + 1);
+    return { coverage, cost: annualPrice / 12, cash: renewal ? annualPrice * coveredMonths / 12 : 0 };
+  }
+
+  const maintenance = service.maintenancePerMonth * escalate(Math.floor((month - getWarrantyEndMonth(device) - 1) / 12));
+  return { coverage, cost: maintenance, cash: maintenance };
+}
+
+// Service costs over the months in service and whether the financing outlasts the warranty
+export function summarizeService(inputs: CalculatorInputs, months: number, schedule: FinancingPeriod[]): ServiceSummary {
+  return {
+    warrantyEndMonth: getWarrantyEndMonth(inputs.device),
+    coverageEndMonth: getCoverageEndMonth(inputs.device, inputs.service),
+    financingEndMonth: getFinancingEndMonth(schedule),
+    uncoveredPaymentMonths: getUncoveredPaymentMonths(inputs, schedule),
+    totalServiceCost: Array.from({ length: months }, (_, index) => calculateServiceMonth(inputs, index + 1, months).cost)
+      .reduce((sum, cost) => sum + cost, 0)
+  };
+}
@@ -0,0 +1,167 @@
+// Providers and how they are paid - salary, hourly, commission, per-treatment fees and bonuses, by who can do what
+
+import type { CalculatorInputs, MonthlyResults, Provider } from './calculations';
+import { getEscalationFactors } from './escalation';
+import { getLineShares, getMenuListPrice } from './treatmentMenu';
+
+export type ProviderRole = Provider['role'];
+
+export const PROVIDER_ROLES: Array<{ role: ProviderRole; label: string }> = [
+  { role: 'md', label: 'Physician (MD/DO)' },
+  { role: 'np', label: 'NP / PA' },
+  { role: 'rn', label: 'RN' },
+  { role: 'aesthetician', label: 'Aesthetician' }
+];
+
+// One provider's work and pay in a month
+export interface ProviderMonth {
+  treatments: number;
+  hours: number;
+  revenue: number;
+  salary: number;
+  variablePay: number;
+}
+
+export interface ProviderSummary {
+  name: string;
+  role: ProviderRole;
+  treatmentsPerMonth: number;
+  hoursPerMonth: number;
+  compensationPerMonth: number;
+  compensationPerTreatment: number;
+  compensationPercentOfRevenue: number;
+}
+
+export interface StaffingSummary {
+  providers: ProviderSummary[];
+  unstaffedTreatments: string[];
+  compensationPercentOfRevenue: number;
+}
+
+// A treatment the clinic offers and its share of the month's treatments - the whole menu, or a
+// single line at the list price when there is no menu
+interface ServiceLine {
+  name: string;
+  price: number;
+  treatmentTime: number;
+  share: number;
+}
+
+function getServiceLines(inputs: CalculatorInputs, month?: number): ServiceLine[] {
+  const { pricing, utilization } = inputs;
+  if (pricing.treatmentMenu.length === 0) {
+    return [{ name: 'All treatments', price: getMenuListPrice(pricing), treatmentTime: utilization.avgTreatmentTime, share: 1 }];
+  }
+  const shares = getLineShares(pricing.treatmentMenu, month);
+  return pricing.treatmentMenu.map((item, index) => ({
+    name: item.name,
+    price: item.price,
+    treatmentTime: item.treatmentTime,
+    share: shares[index]
+  }));
+}
+
+// A provider with no treatments listed can do everything on the menu
+function canPerform(provider: Provider, line: ServiceLine, hasMenu: boolean): boolean {
+  return !hasMenu || provider.treatments.length === 0 || provider.treatments.includes(line.name);
+}
+
+// Share of a line's treatments each provider sees, by their share of the schedule among those who can do it
+function getProviderSplit(inputs: CalculatorInputs, line: ServiceLine): number[] {
+  const hasMenu = inputs.pricing.treatmentMenu.length > 0;
+  const weights = inputs.staffing.providers.map(provider =>
+    canPerform(provider, line, hasMenu) ? Math.max(0, provider.schedulePercent) : 0
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => (total > 0 ? weight / total : 0));
+}
+
+// Who treats whom in a month and what they are paid. Commission and bonus are on the treatment revenue
+// a provider brings in - their treatments weighted by list price; membership dues are not commissioned.
+// Pay rates and salaries rise with labor inflation.
+export function calculateProviderMonths(
+  inputs: CalculatorInputs,
+  month: number,
+  treatments: number,
+  treatmentRevenue: number
+): ProviderMonth[] {
+  const labor = getEscalationFactors(inputs.escalation, month, inputs.device.placedInServiceMonth).labor;
+  const lines = getServiceLines(inputs, month);
+  const splits = lines.map(line => getProviderSplit(inputs, line));
+  const priceWeight = lines.reduce((sum, line) => sum + line.share * line.price, 0);
+
+  return inputs.staffing.providers.map((provider, p) => {
+    const providerTreatments = lines.reduce((sum, line, l) => sum + treatments * line.share * splits[l][p], 0);
+    const hours = lines.reduce((sum, line, l) => sum + treatments * line.share * splits[l][p] * line.treatmentTime / 60, 0);
+    const revenueShare = priceWeight > 0
+      ? lines.reduce((sum, line, l) => sum + line.share * splits[l][p] * line.price, 0) / priceWeight
+      : 0;
+    const revenue = treatmentRevenue * revenueShare;
+
+    return {
+      treatments: providerTreatments,
+      hours,
+      revenue,
+      salary: provider.monthlySalary * labor,
+      variablePay: hours * provider.hourlyRate * labor
+        + providerTreatments * provider.perTreatmentFee * labor
+        + revenue * provider.commissionPercent / 100
+        + Math.max(0, revenue - provider.bonusThreshold) * provider.bonusPercent / 100
+    };
+  });
+}
+
+// Provider pay that moves with each treatment - one menu line, or the average across the menu.
+// Bonuses depend on the month's total, so they are left out of the per-treatment figure.
+export function getProviderCostPerTreatment(inputs: CalculatorInputs, netPrice: number, lineIndex?: number): number {
+  const lines = getServiceLines(inputs);
+  const selected = lineIndex === undefined ? lines : [{ ...lines[lineIndex], share: 1 }];
+
+  return selected.reduce((sum, line) => {
+    const split = getProviderSplit(inputs, line);
+    return sum + line.share * inputs.staffing.providers.reduce((total, provider, p) =>
+      total + split[p] * (
+        provider.hourlyRate * line.treatmentTime / 60
+        + provider.perTreatmentFee
+        + netPrice * provider.commissionPercent / 100
+      ), 0);
+  }, 0);
+}
+
+// Salaries are paid whatever the volume
+export function getProviderSalaries(inputs: CalculatorInputs): number {
+  return inputs.staffing.providers.reduce((sum, provider) => sum + provider.monthlySalary, 0);
+}
+
+// Average month for each provider while the device is in service, and any treatment nobody can perform
+export function summarizeStaffing(inputs: CalculatorInputs, results: MonthlyResults[]): StaffingSummary {
+  const months = results.map(r => calculateProviderMonths(inputs, r.month, r.treatments, r.revenue - r.membershipRevenue));
+  const count = Math.max(results.length, 1);
+  const treatmentRevenue = results.reduce((sum, r) => sum + r.revenue - r.membershipRevenue, 0);
+
+  const providers = inputs.staffing.providers.map((provider, p) => {
+    const total = (value: (month: ProviderMonth) => number) => months.reduce((sum, month) => sum + value(month[p]), 0);
+    const treatments = total(m => m.treatments);
+    const revenue = total(m => m.revenue);
+    const compensation = total(m => m.salary + m.variablePay);
+    return {
+      name: provider.name,
+      role: provider.role,
+      treatmentsPerMonth: treatments / count,
+      hoursPerMonth: total(m => m.hours) / count,
+      compensationPerMonth: compensation / count,
+      compensationPerTreatment: treatments > 0 ? compensation / treatments : 0,
+      compensationPercentOfRevenue: revenue > 0 ? compensation / revenue * 100 : 0
+    };
+  });
+
+  const totalCompensation = providers.reduce((sum, provider) => sum + provider.compensationPerMonth * count, 0);
+
+  return {
+    providers,
+    unstaffedTreatments: getServiceLines(inputs)
+      .filter(line => line.share > 0 && getProviderSplit(inputs, line).every(share => share === 0))
+      .map(line => line.name),
+    compensationPercentOfRevenue: treatmentRevenue > 0 ? totalCompensation / treatmentRevenue * 100 : 0
+  };
+}
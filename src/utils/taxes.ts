@@ -0,0 +1,141 @@
+// Income tax by tax year - federal, state and local layers, interest deduction,
+// loss carryforward and the interest tax shield
+
+import type { DeviceInputs, MonthlyResults } from './calculations';
+import { getTaxYear } from './depreciation';
+
+export interface TaxYearSummary {
+  year: number;
+  months: number;
+  taxableIncome: number;
+  lossUsed: number;
+  lossCarriedForward: number;
+  federalTaxes: number;
+  stateTaxes: number;
+  localTaxes: number;
+  taxes: number;
+  interestTaxShield: number;
+}
+
+export type TaxableMonth = Pick<
+  MonthlyResults,
+  | 'month'
+  | 'ebitda'
+  | 'taxDepreciation'
+  | 'stateTaxDepreciation'
+  | 'interest'
+  | 'taxGainOnSale'
+  | 'stateTaxGainOnSale'
+>;
+
+interface LayerYear {
+  lossUsed: number;
+  lossCarriedForward: number;
+  taxes: number;
+}
+
+// Carried-forward losses can offset at most 80% of a later year's taxable income
+export const NOL_DEDUCTION_LIMIT = 0.8;
+
+// Headline rate on a dollar of pre-tax income - C-corps deduct state and local tax on the federal return
+export function getCombinedTaxRate(device: DeviceInputs): number {
+  const stateAndLocal = device.stateTaxRate + device.localTaxRate;
+  return device.entityType === 'c-corp'
+    ? stateAndLocal + device.federalTaxRate * (1 - stateAndLocal / 100)
+    : stateAndLocal + device.federalTaxRate;
+}
+
+// Sum monthly taxable income into tax years; decoupled states only allow regular depreciation,
+// so their gain on a sale is measured against the basis that leaves
+function groupByTaxYear(
+  months: TaxableMonth[],
+  device: DeviceInputs,
+  deductInterest: boolean,
+  conformsToFederal: boolean
+): Array<{ months: number; income: number }> {
+  const years: Array<{ months: number; income: number }> = [];
+  months.forEach(m => {
+    const index = getTaxYear(m.month, device.placedInServiceMonth) - 1;
+    if (!years[index]) years[index] = { months: 0, income: 0 };
+    years[index].months += 1;
+    years[index].income += m.ebitda
+      - (conformsToFederal ? m.taxDepreciation : m.stateTaxDepreciation)
+      + (conformsToFederal ? m.taxGainOnSale : m.stateTaxGainOnSale)
+      - (deductInterest ? m.interest : 0);
+  });
+  return years;
+}
+
+// One jurisdiction's tax on a series of annual incomes, carrying losses forward separately
+function assessLayer(incomes: number[], ratePercent: number, device: DeviceInputs): LayerYear[] {
+  const rate = ratePercent / 100;
+  let carryforward = 0;
+
+  return incomes.map(income => {
+    // Netting against the rest of the practice turns a loss into an immediate tax saving
+    if (device.taxLossTreatment === 'offset') {
+      return { lossUsed: 0, lossCarriedForward: 0, taxes: income * rate };
+    }
+
+    if (income <= 0) {
+      carryforward -= income;
+      return { lossUsed: 0, lossCarriedForward: carryforward, taxes: 0 };
+    }
+
+    const lossUsed = Math.min(carryforward, income * NOL_DEDUCTION_LIMIT);
+    carryforward -= lossUsed;
+    return { lossUsed, lossCarriedForward: carryforward, taxes: (income - lossUsed) * rate };
+  });
+}
+
+function assessTaxes(months: TaxableMonth[], device: DeviceInputs, deductInterest: boolean) {
+  const federalYears = groupByTaxYear(months, device, deductInterest, true);
+  const stateIncomes = groupByTaxYear(months, device, deductInterest, device.stateConformity).map(y => y.income);
+
+  // Local taxes follow the state base
+  const state = assessLayer(stateIncomes, device.stateTaxRate, device);
+  const local = assessLayer(stateIncomes, device.localTaxRate, device);
+  const federalIncomes = federalYears.map((year, index) =>
+    device.entityType === 'c-corp' ? year.income - state[index].taxes - local[index].taxes : year.income
+  );
+  const federal = assessLayer(federalIncomes, device.federalTaxRate, device);
+
+  return federalYears.map((year, index) => ({
+    months: year.months,
+    income: federalIncomes[index],
+    federal: federal[index],
+    stateTaxes: state[index].taxes,
+    localTaxes: local[index].taxes,
+    taxes: federal[index].taxes + state[index].taxes + local[index].taxes
+  }));
+}
+
+// Tax years covered by the monthly results; the shield is the tax the interest deduction saves
+export function calculateTaxYears(months: TaxableMonth[], device: DeviceInputs): TaxYearSummary[] {
+  const withInterest = assessTaxes(months, device, true);
+  const withoutInterest = assessTaxes(months, device, false);
+
+  return withInterest.map((year, index) => ({
+    year: device.placedInServiceYear + index,
+    months: year.months,
+    taxableIncome: year.income,
+    lossUsed: year.federal.lossUsed,
+    lossCarriedForward: year.federal.lossCarriedForward,
+    federalTaxes: year.federal.taxes,
+    stateTaxes: year.stateTaxes,
+    localTaxes: year.localTaxes,
+    taxes: year.taxes,
+    interestTaxShield: withoutInterest[index].taxes - year.taxes
+  }));
+}
+
+// Spread each tax year's bill evenly over its months, as estimated payments would be
+export function allocateTaxYears(
+  taxYears: TaxYearSummary[],
+  month: number,
+  device: DeviceInputs
+): { taxes: number; interestTaxShield: number } {
+  const year = taxYears[getTaxYear(month, device.placedInServiceMonth) - 1];
+  if (!year) return { taxes: 0, interestTaxShield: 0 };
+  return { taxes: year.taxes / year.months, interestTaxShield: year.interestTaxShield / year.months };
+}
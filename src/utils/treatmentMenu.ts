@@ -0,0 +1,63 @@
+// Treatment menu - several applications on one platform, each with its own price, time, consumables, mix and ramp
+
+import type { CalculatorInputs, PricingInputs, TreatmentMenuItem } from './calculations';
+
+// Per-treatment inputs averaged across the menu for a month
+export interface TreatmentMix {
+  listPrice: number;
+  treatmentTime: number;
+  consumables: number;
+}
+
+// Share of a line's eventual volume it has reached; with no month given, the line is fully ramped
+function getLineRampFactor(item: TreatmentMenuItem, month?: number): number {
+  if (month === undefined || month > item.ramp.length) return 1;
+  return item.ramp[month - 1] / 100;
+}
+
+// A menu with no mix entered yet is split evenly across its lines
+function getLineWeights(menu: TreatmentMenuItem[], month?: number): number[] {
+  const noMix = menu.every(item => item.mixPercent <= 0);
+  return menu.map(item => (noMix ? 1 : Math.max(0, item.mixPercent)) * getLineRampFactor(item, month));
+}
+
+// Each line's share of the treatments performed in a month
+export function getLineShares(menu: TreatmentMenuItem[], month?: number): number[] {
+  const weights = getLineWeights(menu, month);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => (total > 0 ? weight / total : 0));
+}
+
+// Demand kept while lines are still ramping - a line that is only half built out only books half its mix
+export function getMenuVolumeFactor(menu: TreatmentMenuItem[], month: number): number {
+  const fullMix = getLineWeights(menu).reduce((sum, weight) => sum + weight, 0);
+  if (fullMix <= 0) return 1;
+  return getLineWeights(menu, month).reduce((sum, weight) => sum + weight, 0) / fullMix;
+}
+
+function averageAcrossMenu(menu: TreatmentMenuItem[], month: number | undefined, value: (item: TreatmentMenuItem) => number): number {
+  const shares = getLineShares(menu, month);
+  return menu.reduce((sum, item, index) => sum + shares[index] * value(item), 0);
+}
+
+// List price of the average treatment; without a menu the single list price applies
+export function getMenuListPrice(pricing: PricingInputs, month?: number): number {
+  if (pricing.treatmentMenu.length === 0) return pricing.listPricePerTreatment;
+  return averageAcrossMenu(pricing.treatmentMenu, month, item => item.price);
+}
+
+export function getTreatmentMix(inputs: CalculatorInputs, month?: number): TreatmentMix {
+  const menu = inputs.pricing.treatmentMenu;
+  if (menu.length === 0) {
+    return {
+      listPrice: inputs.pricing.listPricePerTreatment,
+      treatmentTime: inputs.utilization.avgTreatmentTime,
+      consumables: inputs.variableCosts.consumables
+    };
+  }
+  return {
+    listPrice: getMenuListPrice(inputs.pricing, month),
+    treatmentTime: averageAcrossMenu(menu, month, item => item.treatmentTime),
+    consumables: averageAcrossMenu(menu, month, item => item.consumables)
+  };
+}